@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Conversation, Language } from '../types';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onCreate: () => void;
+  onRename: (conversation: Conversation, title: string) => void;
+  onDelete: (conversation: Conversation) => void;
+  language: Language;
+  disabled?: boolean;
+  className?: string;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  language,
+  disabled = false,
+  className,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string>('');
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = (conversation: Conversation) => {
+    const title = editingTitle.trim();
+    if (title && title !== conversation.title) {
+      onRename(conversation, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className={`flex flex-col w-56 shrink-0 bg-gray-50 rounded-lg shadow-inner p-3 space-y-2 overflow-y-auto ${className}`}>
+      <button
+        onClick={onCreate}
+        className="w-full bg-blue-600 text-white py-2 px-3 rounded-md text-sm font-semibold hover:bg-blue-700 transition-colors duration-200"
+        disabled={disabled}
+      >
+        {language === 'ar' ? '+ محادثة جديدة' : '+ New Conversation'}
+      </button>
+      {conversations.length === 0 && (
+        <p className="text-sm text-gray-500 italic text-center">
+          {language === 'ar' ? 'لا توجد محادثات محفوظة.' : 'No saved conversations.'}
+        </p>
+      )}
+      {conversations.map((conversation) => (
+        <div
+          key={conversation.id}
+          className={`group rounded-md p-2 text-sm ${
+            conversation.id === activeConversationId ? 'bg-blue-100 text-blue-800' : 'text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {editingId === conversation.id ? (
+            <input
+              autoFocus
+              className="w-full p-1 border border-gray-300 rounded-md"
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={() => commitRename(conversation)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(conversation);
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+            />
+          ) : (
+            <button
+              onClick={() => onSelect(conversation)}
+              className="w-full text-left truncate font-medium"
+              title={conversation.title}
+              disabled={disabled}
+            >
+              {conversation.title}
+            </button>
+          )}
+          <div className="flex space-x-2 mt-1 text-xs">
+            <button onClick={() => startRename(conversation)} className="text-gray-500 hover:text-blue-600" disabled={disabled}>
+              {language === 'ar' ? 'إعادة تسمية' : 'Rename'}
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(language === 'ar' ? `حذف "${conversation.title}"؟` : `Delete "${conversation.title}"?`)) {
+                  onDelete(conversation);
+                }
+              }}
+              className="text-gray-500 hover:text-red-600"
+              disabled={disabled}
+            >
+              {language === 'ar' ? 'حذف' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConversationSidebar;
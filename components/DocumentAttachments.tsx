@@ -0,0 +1,116 @@
+import React, { useRef, useState, useCallback } from 'react';
+import { DocumentAttachment, Language } from '../types';
+import { DOCUMENT_ACCEPT, readDocument, formatFileSize, documentsRequestBytes } from '../services/documentService';
+import { MAX_INLINE_REQUEST_BYTES } from '../constants';
+
+interface DocumentAttachmentsProps {
+  documents: DocumentAttachment[];
+  onChange: (documents: DocumentAttachment[]) => void;
+  onError: (message: string) => void;
+  language: Language;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Drop zone for PDF, text, Markdown and CSV files, with the attached documents as removable chips.
+const DocumentAttachments: React.FC<DocumentAttachmentsProps> = ({ documents, onChange, onError, language, disabled = false, className = '' }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState<boolean>(false);
+  // Latest list, including changes not yet rendered, so reads that finish close together
+  // (e.g. two quick drops) add to each other instead of overwriting.
+  const documentsRef = useRef<DocumentAttachment[]>(documents);
+  documentsRef.current = documents;
+
+  const updateDocuments = useCallback((next: DocumentAttachment[]) => {
+    documentsRef.current = next;
+    onChange(next);
+  }, [onChange]);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readDocument));
+    const current = documentsRef.current;
+    const failures = results.flatMap(result => (result.status === 'rejected' ? [(result.reason as Error).message] : []));
+    // Documents are sent inline, so only add files while they all still fit in one request.
+    const added: DocumentAttachment[] = [];
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue;
+      if (documentsRequestBytes([...current, ...added, result.value]) > MAX_INLINE_REQUEST_BYTES) {
+        failures.push(language === 'ar'
+          ? `لم تتم إضافة ${result.value.name}: مجموع المستندات سيتجاوز حد ${formatFileSize(MAX_INLINE_REQUEST_BYTES)} للطلب الواحد.`
+          : `${result.value.name} was not added: the documents together would exceed the ${formatFileSize(MAX_INLINE_REQUEST_BYTES)} limit for one request.`);
+        continue;
+      }
+      added.push(result.value);
+    }
+    if (added.length > 0) {
+      updateDocuments([...current, ...added]);
+    }
+    if (failures.length > 0) {
+      onError(failures.join(' '));
+    }
+  }, [updateDocuments, onError, language]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''; // Allow picking the same file again
+    }
+    if (files.length > 0) addFiles(files);
+  }, [addFiles]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    const files = Array.from<File>(event.dataTransfer.files);
+    if (files.length > 0) addFiles(files);
+  }, [addFiles, disabled]);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && fileInputRef.current?.click()}
+        className={`border-2 border-dashed rounded-md p-3 text-center text-sm cursor-pointer transition-colors duration-200 ${
+          dragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:border-blue-400'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {language === 'ar'
+          ? 'اسحب ملفات PDF أو نصوص أو Markdown أو CSV هنا، أو انقر للاختيار'
+          : 'Drop PDF, text, Markdown or CSV files here, or click to choose'}
+        <input
+          type="file"
+          accept={DOCUMENT_ACCEPT}
+          onChange={handleFileChange}
+          ref={fileInputRef}
+          multiple
+          className="hidden"
+          disabled={disabled}
+        />
+      </div>
+      {documents.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {documents.map((doc) => (
+            <span key={doc.id} className="inline-flex items-center gap-1 bg-gray-100 border border-gray-300 rounded-full px-3 py-1 text-xs text-gray-700">
+              <span aria-hidden="true">📄</span>
+              <span className="max-w-[12rem] truncate" title={doc.name}>{doc.name}</span>
+              <span className="text-gray-500">{formatFileSize(doc.size)}</span>
+              <button
+                onClick={() => updateDocuments(documentsRef.current.filter(d => d.id !== doc.id))}
+                disabled={disabled}
+                className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                aria-label={language === 'ar' ? `إزالة ${doc.name}` : `Remove ${doc.name}`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentAttachments;
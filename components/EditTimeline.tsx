@@ -0,0 +1,55 @@
+import React from 'react';
+import { EditStep, Language } from '../types';
+
+interface EditTimelineProps {
+  steps: EditStep[];
+  currentStepId: string | null;
+  onSelect: (step: EditStep) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+// Renders the editing session as a tree: each step lists the edits made from it,
+// so branches started from earlier steps appear nested under their parent.
+const EditTimeline: React.FC<EditTimelineProps> = ({ steps, currentStepId, onSelect, language, disabled = false }) => {
+  const renderChildren = (parentId: string | null, depth: number): React.ReactNode => {
+    const children = steps.filter(step => step.parentId === parentId);
+    if (children.length === 0) return null;
+    return (
+      <ul className={depth > 0 ? 'ml-4 pl-3 border-l-2 border-gray-200 space-y-2' : 'space-y-2'}>
+        {children.map((step) => (
+          <li key={step.id}>
+            <button
+              onClick={() => onSelect(step)}
+              disabled={disabled}
+              className={`flex items-center w-full text-left space-x-3 p-2 rounded-md border disabled:opacity-50 ${
+                step.id === currentStepId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-100'
+              }`}
+            >
+              <img
+                src={`data:${step.image.mimeType};base64,${step.image.base64Data}`}
+                alt={step.prompt || 'Original'}
+                className="w-12 h-12 object-cover rounded"
+              />
+              <span className="text-sm text-gray-700 line-clamp-2">
+                {step.prompt || (language === 'ar' ? 'الصورة الأصلية' : 'Original image')}
+              </span>
+            </button>
+            {renderChildren(step.id, depth + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        {language === 'ar' ? 'سجل التحرير:' : 'Edit history:'}
+      </h3>
+      {renderChildren(null, 0)}
+    </div>
+  );
+};
+
+export default EditTimeline;
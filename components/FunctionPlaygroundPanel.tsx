@@ -0,0 +1,140 @@
+import React from 'react';
+import { Language, PlaygroundFunction } from '../types';
+import { createPlaygroundFunction } from '../services/functionPlaygroundService';
+
+interface FunctionPlaygroundPanelProps {
+  enabled: boolean;
+  functions: PlaygroundFunction[];
+  onEnabledChange: (enabled: boolean) => void;
+  onFunctionsChange: (functions: PlaygroundFunction[]) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+// Registers the functions the Chatbot or Live Chat exposes to the model when function calling is on.
+const FunctionPlaygroundPanel: React.FC<FunctionPlaygroundPanelProps> = ({
+  enabled,
+  functions,
+  onEnabledChange,
+  onFunctionsChange,
+  language,
+  disabled = false,
+}) => {
+  const updateFunction = (id: string, changes: Partial<PlaygroundFunction>) => {
+    onFunctionsChange(functions.map(fn => (fn.id === id ? { ...fn, ...changes } : fn)));
+  };
+
+  return (
+    <details className="border border-gray-300 rounded-lg p-3">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-700 flex items-center justify-between">
+        <span>{language === 'ar' ? 'استدعاء الدوال' : 'Function calling'}</span>
+        <label className="flex items-center space-x-2 text-sm font-normal" onClick={(e) => e.stopPropagation()}>
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>{language === 'ar' ? 'مفعّل' : 'Enabled'}</span>
+        </label>
+      </summary>
+
+      <div className="mt-3 space-y-4 max-h-80 overflow-y-auto">
+        {functions.map((fn) => (
+          <div key={fn.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="flex-1 p-2 border border-gray-300 rounded-md text-sm font-mono"
+                value={fn.name}
+                onChange={(e) => updateFunction(fn.id, { name: e.target.value })}
+                placeholder={language === 'ar' ? 'اسم الدالة' : 'Function name'}
+                disabled={disabled}
+              />
+              <button
+                onClick={() => onFunctionsChange(functions.filter(f => f.id !== fn.id))}
+                disabled={disabled}
+                className="text-red-500 hover:text-red-700 text-sm disabled:opacity-30"
+                aria-label={language === 'ar' ? 'إزالة الدالة' : 'Remove function'}
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              type="text"
+              className="w-full p-2 border border-gray-300 rounded-md text-sm"
+              value={fn.description}
+              onChange={(e) => updateFunction(fn.id, { description: e.target.value })}
+              placeholder={language === 'ar' ? 'ما الذي تفعله الدالة؟' : 'What does the function do?'}
+              disabled={disabled}
+            />
+            <label className="block text-xs font-medium text-gray-600">
+              {language === 'ar' ? 'المعاملات (JSON Schema):' : 'Parameters (JSON Schema):'}
+            </label>
+            <textarea
+              className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs resize-y"
+              rows={5}
+              value={fn.parametersJson}
+              onChange={(e) => updateFunction(fn.id, { parametersJson: e.target.value })}
+              disabled={disabled}
+              spellCheck={false}
+            ></textarea>
+            <div className="flex space-x-2">
+              {(['mock', 'code'] as PlaygroundFunction['implementation'][]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => updateFunction(fn.id, { implementation: option })}
+                  disabled={disabled}
+                  className={`px-3 py-1 rounded-md text-xs font-medium ${
+                    fn.implementation === option ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {option === 'mock'
+                    ? (language === 'ar' ? 'استجابة وهمية' : 'Mock response')
+                    : (language === 'ar' ? 'كود JavaScript' : 'JavaScript')}
+                </button>
+              ))}
+            </div>
+            {fn.implementation === 'mock' ? (
+              <textarea
+                className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs resize-y"
+                rows={3}
+                value={fn.mockResponse}
+                onChange={(e) => updateFunction(fn.id, { mockResponse: e.target.value })}
+                placeholder={language === 'ar' ? 'JSON أو نص عادي' : 'JSON or plain text'}
+                disabled={disabled}
+                spellCheck={false}
+              ></textarea>
+            ) : (
+              <>
+                <textarea
+                  className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs resize-y"
+                  rows={4}
+                  value={fn.code}
+                  onChange={(e) => updateFunction(fn.id, { code: e.target.value })}
+                  disabled={disabled}
+                  spellCheck={false}
+                ></textarea>
+                <p className="text-xs text-gray-500">
+                  {language === 'ar'
+                    ? 'جسم الدالة يستقبل `args` ويعمل في عامل معزول بدون وصول للشبكة أو لبيانات التطبيق.'
+                    : 'The body receives `args` and runs in a sandboxed worker without network access or access to the app\'s data.'}
+                </p>
+              </>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => onFunctionsChange([...functions, { ...createPlaygroundFunction(), name: '', description: '' }])}
+          disabled={disabled}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+        >
+          {language === 'ar' ? '+ إضافة دالة' : '+ Add function'}
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default FunctionPlaygroundPanel;
@@ -6,7 +6,7 @@ interface ImageUploaderProps {
   allowedFileTypes: string[];
   label: string;
   className?: string;
-  multiple?: boolean;
+  value?: File | null; // Set to null to reset the preview, or to an image File supplied from elsewhere to show it
 }
 
 const ImageUploader: React.FC<ImageUploaderProps> = ({
@@ -14,12 +14,13 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
   allowedFileTypes,
   label,
   className,
-  multiple = false,
+  value,
 }) => {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const selectedFileRef = useRef<File | null>(null); // Last file picked through the input
 
   const readFileAsDataURL = (file: File): Promise<string> => {
     return new Promise((resolve) => {
@@ -80,6 +81,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    selectedFileRef.current = file ?? null;
     if (file) {
       const isImage = file.type.startsWith('image/');
       const isVideo = file.type.startsWith('video/');
@@ -117,7 +119,24 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
     };
   }, [previewUrl]);
 
+  useEffect(() => {
+    if (value === null) {
+      setPreviewUrl(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } else if (value && value !== selectedFileRef.current && value.type.startsWith('image/')) {
+      // Image supplied by the owning tool rather than picked here, e.g. sent from the asset library.
+      selectedFileRef.current = value;
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      readFileAsDataURL(value).then(setPreviewUrl);
+    }
+  }, [value]);
+
   const handleClear = useCallback(() => {
+    selectedFileRef.current = null;
     setPreviewUrl(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -133,7 +152,6 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         accept={allowedFileTypes.join(',')}
         onChange={handleFileChange}
         ref={fileInputRef}
-        multiple={multiple}
         className="block w-full text-sm text-gray-500
                    file:mr-4 file:py-2 file:px-4
                    file:rounded-full file:border-0
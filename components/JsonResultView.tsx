@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { downloadBlob } from '../services/exportService';
+
+interface JsonResultViewProps {
+  value: unknown;
+  validationErrors: string[];
+  language: Language;
+  filename?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const formatCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const JsonTreeNode: React.FC<{ name?: string; value: unknown }> = ({ name, value }) => {
+  const label = name !== undefined ? <span className="text-purple-700">{name}: </span> : null;
+  if (Array.isArray(value) || isRecord(value)) {
+    const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+    return (
+      <details open className="ml-4">
+        <summary className="cursor-pointer">
+          {label}
+          <span className="text-gray-500">{Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}</span>
+        </summary>
+        {entries.map(([key, child]) => (
+          <JsonTreeNode key={key} name={key} value={child} />
+        ))}
+      </details>
+    );
+  }
+  return (
+    <div className="ml-4">
+      {label}
+      <span className={typeof value === 'string' ? 'text-green-700' : 'text-blue-700'}>{JSON.stringify(value)}</span>
+    </div>
+  );
+};
+
+// Shows a structured response as a collapsible tree, or as a table when it is a list of objects.
+const JsonResultView: React.FC<JsonResultViewProps> = ({ value, validationErrors, language, filename = 'result.json' }) => {
+  const rows = Array.isArray(value) && value.every(isRecord) ? value as Record<string, unknown>[] : null;
+  const [view, setView] = useState<'tree' | 'table'>('tree');
+  const [copied, setCopied] = useState<boolean>(false);
+  const json = JSON.stringify(value, null, 2);
+  const columns = rows ? Array.from(new Set(rows.flatMap(row => Object.keys(row)))) : [];
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(json)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(e => console.error("Clipboard error:", e));
+  };
+
+  return (
+    <div className="space-y-3">
+      {validationErrors.length > 0 ? (
+        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm p-3 rounded-md">
+          <p className="font-semibold">{language === 'ar' ? 'النتيجة لا تطابق المخطط:' : 'The result does not match the schema:'}</p>
+          <ul className="list-disc ml-5">
+            {validationErrors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-green-700">{language === 'ar' ? '✓ النتيجة تطابق المخطط.' : '✓ The result matches the schema.'}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {rows && (
+          <>
+            <button
+              onClick={() => setView('tree')}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${view === 'tree' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {language === 'ar' ? 'شجرة' : 'Tree'}
+            </button>
+            <button
+              onClick={() => setView('table')}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${view === 'table' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {language === 'ar' ? 'جدول' : 'Table'}
+            </button>
+          </>
+        )}
+        <button
+          onClick={handleCopy}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+        >
+          {copied ? (language === 'ar' ? 'تم النسخ' : 'Copied') : (language === 'ar' ? 'نسخ JSON' : 'Copy JSON')}
+        </button>
+        <button
+          onClick={() => downloadBlob(new Blob([json], { type: 'application/json' }), filename)}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+        >
+          {language === 'ar' ? 'تنزيل JSON' : 'Download JSON'}
+        </button>
+      </div>
+
+      {rows && view === 'table' ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm border border-gray-200">
+            <thead className="bg-gray-100">
+              <tr>
+                {columns.map((column) => (
+                  <th key={column} className="px-3 py-2 text-left font-semibold text-gray-700 border-b border-gray-200">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className="odd:bg-white even:bg-gray-50">
+                  {columns.map((column) => (
+                    <td key={column} className="px-3 py-2 border-b border-gray-200 text-gray-700">{formatCell(row[column])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="font-mono text-sm -ml-4">
+          <JsonTreeNode value={value} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JsonResultView;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Language, LiveSessionSettings } from '../types';
+import { LIVE_RESPONSE_LANGUAGES, VOICE_NAMES } from '../constants';
+import FunctionPlaygroundPanel from './FunctionPlaygroundPanel';
+
+interface LiveSettingsPanelProps {
+  settings: LiveSessionSettings;
+  onChange: (changes: Partial<LiveSessionSettings>) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+const SELECT_CLASS = 'mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md';
+
+// Options a Live Chat session is opened with. They can be edited during a session and applied by reconnecting.
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({ settings, onChange, language, disabled = false }) => (
+  <details className="border border-gray-300 rounded-lg p-3" open>
+    <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+      {language === 'ar' ? 'إعدادات الجلسة' : 'Session settings'}
+    </summary>
+
+    <div className="mt-3 space-y-4">
+      <div>
+        <label htmlFor="liveSystemInstruction" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'تعليمات النظام:' : 'System instruction:'}
+        </label>
+        <textarea
+          id="liveSystemInstruction"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={2}
+          value={settings.systemInstruction}
+          onChange={(e) => onChange({ systemInstruction: e.target.value })}
+          disabled={disabled}
+        ></textarea>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="liveVoiceSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'اختر الصوت:' : 'Select Voice:'}
+          </label>
+          <select
+            id="liveVoiceSelect"
+            className={SELECT_CLASS}
+            value={settings.voice}
+            onChange={(e) => onChange({ voice: e.target.value })}
+            disabled={disabled}
+          >
+            {VOICE_NAMES.map((voice) => (
+              <option key={voice.value} value={voice.value}>{voice.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="liveLanguageSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'لغة الرد:' : 'Response language:'}
+          </label>
+          <select
+            id="liveLanguageSelect"
+            className={SELECT_CLASS}
+            value={settings.responseLanguage}
+            onChange={(e) => onChange({ responseLanguage: e.target.value })}
+            disabled={disabled}
+          >
+            {LIVE_RESPONSE_LANGUAGES.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={settings.googleSearch}
+            onChange={(e) => onChange({ googleSearch: e.target.checked })}
+            disabled={disabled}
+          />
+          <span>{language === 'ar' ? 'بحث Google' : 'Google Search'}</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={settings.pushToTalk}
+            onChange={(e) => onChange({ pushToTalk: e.target.checked })}
+            disabled={disabled}
+          />
+          <span>
+            {language === 'ar' ? 'اضغط للتحدث (بدلاً من اكتشاف الصوت)' : 'Push-to-talk (instead of voice activity detection)'}
+          </span>
+        </label>
+      </div>
+
+      <FunctionPlaygroundPanel
+        enabled={settings.functionMode}
+        functions={settings.functions}
+        onEnabledChange={(functionMode) => onChange({ functionMode })}
+        onFunctionsChange={(functions) => onChange({ functions })}
+        language={language}
+        disabled={disabled}
+      />
+    </div>
+  </details>
+);
+
+export default LiveSettingsPanel;
@@ -0,0 +1,128 @@
+import React, { useRef, useEffect, useCallback } from 'react';
+import { ImageInput, Language, MaskTool } from '../types';
+import { overlayToMask } from '../services/maskService';
+
+interface MaskEditorProps {
+  image: ImageInput;
+  tool: MaskTool;
+  brushSize: number; // In image pixels
+  onMaskChange: (mask: ImageInput | null) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+const OVERLAY_COLOR = 'rgb(239, 68, 68)';
+
+// Paint or box-select the region to edit over the image. The overlay canvas matches
+// the image's natural size so the exported mask lines up pixel for pixel.
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, tool, brushSize, onMaskChange, language, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef<boolean>(false);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const snapshotRef = useRef<ImageData | null>(null); // Canvas before the box being dragged
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+    };
+    img.src = `data:${image.mimeType};base64,${image.base64Data}`;
+  }, [image]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext('2d');
+    if (disabled || !ctx) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(event);
+    startRef.current = point;
+    if (tool === 'box') {
+      snapshotRef.current = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    } else {
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, brushSize / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }, [disabled, tool, brushSize]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext('2d');
+    const start = startRef.current;
+    if (!drawingRef.current || !ctx || !start) return;
+    const point = toCanvasPoint(event);
+    if (tool === 'box') {
+      if (snapshotRef.current) ctx.putImageData(snapshotRef.current, 0, 0);
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.fillRect(start.x, start.y, point.x - start.x, point.y - start.y);
+    } else {
+      ctx.strokeStyle = OVERLAY_COLOR;
+      ctx.lineWidth = brushSize;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      startRef.current = point;
+    }
+  }, [tool, brushSize]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    startRef.current = null;
+    snapshotRef.current = null;
+    try {
+      onMaskChange(overlayToMask(event.currentTarget));
+    } catch (error) {
+      console.error('Error exporting mask:', error);
+    }
+  }, [onMaskChange]);
+
+  const handleClearMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  }, [onMaskChange]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative inline-block max-w-full">
+        <img
+          src={`data:${image.mimeType};base64,${image.base64Data}`}
+          alt="Mask source"
+          className="block max-w-full h-auto rounded-lg shadow-md border border-gray-200"
+        />
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        ></canvas>
+      </div>
+      <button
+        onClick={handleClearMask}
+        disabled={disabled}
+        className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+      >
+        {language === 'ar' ? 'مسح القناع' : 'Clear Mask'}
+      </button>
+    </div>
+  );
+};
+
+export default MaskEditor;
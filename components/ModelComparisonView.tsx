@@ -0,0 +1,72 @@
+import React from 'react';
+import { Language, ModelComparisonResult, SupportedModels } from '../types';
+import { TEXT_MODELS } from '../constants';
+
+interface ModelComparisonViewProps {
+  results: ModelComparisonResult[];
+  winnerModel: SupportedModels | null;
+  onWinnerChange: (model: SupportedModels | null) => void;
+  language: Language;
+}
+
+const formatSeconds = (ms?: number): string => (ms === undefined ? '—' : `${(ms / 1000).toFixed(2)} s`);
+const formatTokens = (count?: number): string => (count === undefined ? '—' : count.toLocaleString());
+
+// Answers from each compared model side by side, with timing and token usage.
+const ModelComparisonView: React.FC<ModelComparisonViewProps> = ({ results, winnerModel, onWinnerChange, language }) => {
+  const gridColumns = results.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2';
+
+  return (
+    <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+      {results.map((result) => {
+        const isWinner = winnerModel === result.model;
+        const label = TEXT_MODELS.find(option => option.value === result.model)?.label ?? result.model;
+        return (
+          <div
+            key={result.model}
+            className={`bg-gray-50 p-4 rounded-md shadow-inner flex flex-col space-y-3 border-2 ${isWinner ? 'border-green-500' : 'border-transparent'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-lg font-semibold text-gray-800">{isWinner && '🏆 '}{label}</h3>
+              <button
+                onClick={() => onWinnerChange(isWinner ? null : result.model)}
+                disabled={result.status !== 'done'}
+                className={`px-3 py-1 rounded-md text-xs font-medium disabled:opacity-50 ${
+                  isWinner ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {isWinner ? (language === 'ar' ? 'الفائز' : 'Winner') : (language === 'ar' ? 'اختيار كفائز' : 'Mark as winner')}
+              </button>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-600">
+              <dt>{language === 'ar' ? 'أول استجابة' : 'First chunk'}</dt>
+              <dd className="font-mono">{formatSeconds(result.firstChunkMs)}</dd>
+              <dt>{language === 'ar' ? 'الزمن الكلي' : 'Total latency'}</dt>
+              <dd className="font-mono">{result.status === 'running' ? '…' : formatSeconds(result.latencyMs)}</dd>
+              <dt>{language === 'ar' ? 'رموز الإدخال' : 'Input tokens'}</dt>
+              <dd className="font-mono">{formatTokens(result.promptTokens)}</dd>
+              <dt>{language === 'ar' ? 'رموز الإخراج' : 'Output tokens'}</dt>
+              <dd className="font-mono">{formatTokens(result.outputTokens)}</dd>
+              <dt>{language === 'ar' ? 'رموز التفكير' : 'Thinking tokens'}</dt>
+              <dd className="font-mono">{formatTokens(result.thoughtsTokens)}</dd>
+            </dl>
+
+            {result.status === 'error' ? (
+              <p className="text-sm text-red-600">{result.error}</p>
+            ) : (
+              <div className="whitespace-pre-wrap text-gray-700 text-sm">
+                {result.text || (result.status === 'running' ? (language === 'ar' ? 'جارٍ التوليد...' : 'Generating...') : '')}
+              </div>
+            )}
+            {result.status === 'stopped' && (
+              <p className="text-xs text-gray-500 italic">{language === 'ar' ? 'تم الإيقاف.' : 'Stopped.'}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModelComparisonView;
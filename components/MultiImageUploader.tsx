@@ -0,0 +1,144 @@
+import React, { useRef, useState, useCallback } from 'react';
+import { Language, UploadedImage } from '../types';
+
+interface MultiImageUploaderProps {
+  images: UploadedImage[];
+  onChange: (images: UploadedImage[]) => void;
+  allowedFileTypes: string[];
+  label: string;
+  language: Language;
+  maxImages?: number;
+  className?: string;
+}
+
+const readImage = (file: File): Promise<UploadedImage> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      resolve({ id: crypto.randomUUID(), file, image: { base64Data: dataUrl.split(',')[1], mimeType: file.type } });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Upload several images and arrange them by dragging or with the arrow buttons.
+// The order is meaningful: tools refer to the images as "image 1", "image 2", and so on.
+const MultiImageUploader: React.FC<MultiImageUploaderProps> = ({
+  images,
+  onChange,
+  allowedFileTypes,
+  label,
+  language,
+  maxImages,
+  className,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []).filter(file => allowedFileTypes.includes(file.type));
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''; // Allow picking the same file again
+    }
+    if (files.length === 0) return;
+    try {
+      const added = await Promise.all(files.map(readImage));
+      const next = [...images, ...added];
+      if (maxImages !== undefined && next.length > maxImages) {
+        alert(language === 'ar' ? `الحد الأقصى ${maxImages} صور.` : `You can add up to ${maxImages} images.`);
+      }
+      onChange(maxImages !== undefined ? next.slice(0, maxImages) : next);
+    } catch (error) {
+      console.error('Error reading images:', error);
+    }
+  }, [images, onChange, allowedFileTypes, maxImages, language]);
+
+  const moveImage = useCallback((from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  }, [images, onChange]);
+
+  const removeImage = useCallback((id: string) => {
+    onChange(images.filter(image => image.id !== id));
+  }, [images, onChange]);
+
+  const isFull = maxImages !== undefined && images.length >= maxImages;
+
+  return (
+    <div className={`flex flex-col items-center border border-gray-300 rounded-lg p-4 space-y-4 ${className}`}>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="file"
+        accept={allowedFileTypes.join(',')}
+        onChange={handleFileChange}
+        ref={fileInputRef}
+        multiple
+        disabled={isFull}
+        className="block w-full text-sm text-gray-500
+                   file:mr-4 file:py-2 file:px-4
+                   file:rounded-full file:border-0
+                   file:text-sm file:font-semibold
+                   file:bg-blue-50 file:text-blue-700
+                   hover:file:bg-blue-100 cursor-pointer disabled:opacity-50"
+      />
+      {images.length > 0 && (
+        <ol className="w-full grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {images.map((item, index) => (
+            <li
+              key={item.id}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveImage(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative border rounded-lg overflow-hidden shadow-sm bg-white cursor-move ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <span className="absolute top-1 left-1 bg-gray-800 bg-opacity-75 text-white text-xs font-semibold px-2 py-0.5 rounded">
+                {index + 1}
+              </span>
+              <img
+                src={`data:${item.image.mimeType};base64,${item.image.base64Data}`}
+                alt={item.file.name}
+                className="w-full h-24 object-cover"
+              />
+              <div className="flex justify-between items-center text-xs bg-gray-50">
+                <button
+                  onClick={() => moveImage(index, index - 1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  aria-label={language === 'ar' ? 'تحريك لليسار' : 'Move left'}
+                >
+                  ←
+                </button>
+                <button
+                  onClick={() => removeImage(item.id)}
+                  className="px-2 py-1 text-red-500 hover:text-red-700"
+                >
+                  {language === 'ar' ? 'إزالة' : 'Remove'}
+                </button>
+                <button
+                  onClick={() => moveImage(index, index + 1)}
+                  disabled={index === images.length - 1}
+                  className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  aria-label={language === 'ar' ? 'تحريك لليمين' : 'Move right'}
+                >
+                  →
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default MultiImageUploader;
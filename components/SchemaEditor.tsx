@@ -0,0 +1,148 @@
+import React from 'react';
+import { Language, SchemaEditorMode, SchemaField, SchemaFieldType } from '../types';
+import { createSchemaField } from '../services/structuredOutputService';
+
+interface SchemaEditorProps {
+  mode: SchemaEditorMode;
+  fields: SchemaField[];
+  asList: boolean;
+  jsonSchemaText: string;
+  onModeChange: (mode: SchemaEditorMode) => void;
+  onFieldsChange: (fields: SchemaField[]) => void;
+  onAsListChange: (asList: boolean) => void;
+  onJsonSchemaTextChange: (text: string) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+const FIELD_TYPE_OPTIONS: { value: SchemaFieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'boolean', label: 'Yes/No' },
+  { value: 'string[]', label: 'List of text' },
+  { value: 'number[]', label: 'List of numbers' },
+];
+
+const SchemaEditor: React.FC<SchemaEditorProps> = ({
+  mode,
+  fields,
+  asList,
+  jsonSchemaText,
+  onModeChange,
+  onFieldsChange,
+  onAsListChange,
+  onJsonSchemaTextChange,
+  language,
+  disabled = false,
+}) => {
+  const updateField = (id: string, changes: Partial<SchemaField>) => {
+    onFieldsChange(fields.map(field => (field.id === id ? { ...field, ...changes } : field)));
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700">{language === 'ar' ? 'مخطط الاستجابة' : 'Response schema'}</h3>
+        <div className="flex space-x-2">
+          {(['form', 'json'] as SchemaEditorMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => onModeChange(option)}
+              disabled={disabled}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${
+                mode === option ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {option === 'form' ? (language === 'ar' ? 'نموذج' : 'Form') : 'JSON Schema'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'form' ? (
+        <>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              checked={asList}
+              onChange={(e) => onAsListChange(e.target.checked)}
+              disabled={disabled}
+            />
+            <span>{language === 'ar' ? 'إرجاع قائمة من العناصر (صف لكل عنصر)' : 'Return a list of items (one row per item)'}</span>
+          </label>
+          <div className="space-y-2">
+            {fields.map((field) => (
+              <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  className="col-span-3 p-2 border border-gray-300 rounded-md text-sm"
+                  value={field.name}
+                  onChange={(e) => updateField(field.id, { name: e.target.value })}
+                  placeholder={language === 'ar' ? 'اسم الحقل' : 'Field name'}
+                  disabled={disabled}
+                />
+                <select
+                  className="col-span-2 p-2 border border-gray-300 rounded-md text-sm"
+                  value={field.type}
+                  onChange={(e) => updateField(field.id, { type: e.target.value as SchemaFieldType })}
+                  disabled={disabled}
+                >
+                  {FIELD_TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  className="col-span-4 p-2 border border-gray-300 rounded-md text-sm"
+                  value={field.description}
+                  onChange={(e) => updateField(field.id, { description: e.target.value })}
+                  placeholder={language === 'ar' ? 'الوصف (اختياري)' : 'Description (optional)'}
+                  disabled={disabled}
+                />
+                <label className="col-span-2 flex items-center space-x-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    checked={field.required}
+                    onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                    disabled={disabled}
+                  />
+                  <span>{language === 'ar' ? 'مطلوب' : 'Required'}</span>
+                </label>
+                <button
+                  onClick={() => onFieldsChange(fields.filter(f => f.id !== field.id))}
+                  disabled={disabled || fields.length === 1}
+                  className="col-span-1 text-red-500 hover:text-red-700 text-sm disabled:opacity-30"
+                  aria-label={language === 'ar' ? 'إزالة الحقل' : 'Remove field'}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => onFieldsChange([...fields, createSchemaField()])}
+            disabled={disabled}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            {language === 'ar' ? '+ إضافة حقل' : '+ Add field'}
+          </button>
+        </>
+      ) : (
+        <textarea
+          className="w-full p-3 border border-gray-300 rounded-md font-mono text-sm focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={10}
+          value={jsonSchemaText}
+          onChange={(e) => onJsonSchemaTextChange(e.target.value)}
+          placeholder={language === 'ar' ? 'الصق JSON Schema هنا...' : 'Paste a JSON Schema here...'}
+          disabled={disabled}
+          spellCheck={false}
+        ></textarea>
+      )}
+    </div>
+  );
+};
+
+export default SchemaEditor;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Language, PromptTemplate, Tab } from '../types';
+import {
+  listTemplates,
+  saveTemplate,
+  deleteTemplate,
+  extractVariables,
+  fillTemplate,
+  parseTags,
+  matchesTemplateSearch,
+  templatesToJson,
+  parseTemplatesJson,
+} from '../services/templateService';
+import { downloadBlob } from '../services/exportService';
+
+type TemplateContent = Pick<PromptTemplate, 'prompt' | 'systemInstruction' | 'model' | 'settings'>;
+
+interface TemplateLibraryProps {
+  tool: Tab;
+  getCurrent: () => TemplateContent; // Snapshot of the tool's form, saved as a new template
+  onApply: (template: PromptTemplate) => void; // Receives the template with its variables filled in
+  language: Language;
+  disabled?: boolean;
+}
+
+// Saved prompts for one tool: search, save, import/export, and a fill-in form for `{{variables}}`.
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ tool, getCurrent, onApply, language, disabled = false }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [name, setName] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listTemplates()
+      .then(all => setTemplates(all.filter(template => template.tool === tool)))
+      .catch(e => setError(`Failed to load templates: ${e.message}`));
+  }, [tool]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const variables = selected ? extractVariables(selected.prompt, selected.systemInstruction) : [];
+  const visibleTemplates = templates.filter(template => matchesTemplateSearch(template, query));
+
+  const applyTemplate = (template: PromptTemplate, variableValues: Record<string, string>) => {
+    onApply({
+      ...template,
+      prompt: fillTemplate(template.prompt, variableValues),
+      systemInstruction: template.systemInstruction !== undefined ? fillTemplate(template.systemInstruction, variableValues) : undefined,
+    });
+    setSelected(null);
+  };
+
+  const handleUse = (template: PromptTemplate) => {
+    if (extractVariables(template.prompt, template.systemInstruction).length === 0) {
+      applyTemplate(template, {});
+    } else {
+      setSelected(template);
+      setValues({});
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      await saveTemplate({ ...getCurrent(), name: name.trim(), tool, tags: parseTags(tags) });
+      setName('');
+      setTags('');
+      refresh();
+    } catch (e) {
+      setError(`Failed to save template: ${(e as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+      if (selected?.id === template.id) setSelected(null);
+      refresh();
+    } catch (e) {
+      setError(`Failed to delete template: ${(e as Error).message}`);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (importInputRef.current) {
+      importInputRef.current.value = ''; // Allow importing the same file again
+    }
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = parseTemplatesJson(await file.text());
+      for (const template of imported) {
+        await saveTemplate(template);
+      }
+      refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleExport = () => {
+    const json = templatesToJson(templates);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${tool.toLowerCase().replace(/\s+/g, '-')}-templates.json`);
+  };
+
+  return (
+    <details className="border border-gray-300 rounded-lg p-3" onToggle={(e) => e.currentTarget.open && refresh()}>
+      <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+        {language === 'ar' ? `القوالب (${templates.length})` : `Templates (${templates.length})`}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <input
+          type="search"
+          className="w-full p-2 border border-gray-300 rounded-md text-sm"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={language === 'ar' ? 'ابحث بالاسم أو الوسم أو النص...' : 'Search by name, tag or text...'}
+        />
+
+        {visibleTemplates.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            {language === 'ar' ? 'لا توجد قوالب بعد.' : 'No templates yet.'}
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {visibleTemplates.map((template) => (
+              <li key={template.id} className="flex items-center gap-2 border border-gray-200 rounded-md p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{template.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{template.prompt}</p>
+                  {template.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {template.tags.map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={() => setQuery(tag)}
+                          className="bg-blue-50 text-blue-700 rounded-full px-2 text-xs hover:bg-blue-100"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleUse(template)}
+                  disabled={disabled}
+                  className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {language === 'ar' ? 'استخدام' : 'Use'}
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="text-red-500 hover:text-red-700 text-sm"
+                  aria-label={language === 'ar' ? 'حذف القالب' : 'Delete template'}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected && variables.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-md p-3 space-y-2">
+            <p className="text-sm font-semibold text-gray-700">{selected.name}</p>
+            {variables.map((variable) => (
+              <div key={variable}>
+                <label htmlFor={`template-variable-${tool}-${variable}`} className="block text-xs font-medium text-gray-600">{variable}</label>
+                <input
+                  id={`template-variable-${tool}-${variable}`}
+                  type="text"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  value={values[variable] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button
+                onClick={() => applyTemplate(selected, values)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {language === 'ar' ? 'تطبيق' : 'Apply'}
+              </button>
+              <button
+                onClick={() => setSelected(null)}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 items-center border-t border-gray-200 pt-3">
+          <input
+            type="text"
+            className="flex-1 min-w-[8rem] p-2 border border-gray-300 rounded-md text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={language === 'ar' ? 'اسم القالب' : 'Template name'}
+          />
+          <input
+            type="text"
+            className="flex-1 min-w-[8rem] p-2 border border-gray-300 rounded-md text-sm"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder={language === 'ar' ? 'الوسوم، مفصولة بفواصل' : 'Tags, comma-separated'}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            {language === 'ar' ? 'حفظ الحالي' : 'Save current'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {language === 'ar'
+            ? 'استخدم {{اسم}} في النص لإنشاء متغيرات تُملأ عند استخدام القالب.'
+            : 'Write {{name}} in the prompt to add a variable that is filled in when the template is used.'}
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            {language === 'ar' ? 'استيراد JSON' : 'Import JSON'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={templates.length === 0}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            {language === 'ar' ? 'تصدير JSON' : 'Export JSON'}
+          </button>
+          <input type="file" accept="application/json,.json" onChange={handleImport} ref={importInputRef} className="hidden" />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Language, SupportedModels } from '../types';
+import { DYNAMIC_THINKING_BUDGET, THINKING_BUDGET_LIMITS } from '../constants';
+import { clampThinkingBudget } from '../services/geminiService';
+
+interface ThinkingBudgetControlProps {
+  model: SupportedModels;
+  budget: number;
+  onChange: (budget: number) => void;
+  language: Language;
+  disabled?: boolean;
+}
+
+// Slider for the thinking budget within the selected model's limits, with a dynamic option.
+// Renders nothing for models without thinking support.
+const ThinkingBudgetControl: React.FC<ThinkingBudgetControlProps> = ({ model, budget, onChange, language, disabled = false }) => {
+  const limits = THINKING_BUDGET_LIMITS[model];
+  if (!limits) return null;
+
+  const isDynamic = budget === DYNAMIC_THINKING_BUDGET;
+  const effectiveBudget = clampThinkingBudget(model, budget);
+  const sliderMin = limits.canDisable ? 0 : limits.min;
+
+  let budgetLabel: string;
+  if (isDynamic) {
+    budgetLabel = language === 'ar' ? 'ديناميكي' : 'Dynamic';
+  } else if (effectiveBudget === 0) {
+    budgetLabel = language === 'ar' ? 'متوقف' : 'Off';
+  } else {
+    budgetLabel = language === 'ar' ? `${effectiveBudget} رمزاً` : `${effectiveBudget} tokens`;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor={`thinkingBudget-${model}`} className="block text-sm font-medium text-gray-700">
+          {language === 'ar' ? 'ميزانية التفكير:' : 'Thinking budget:'} <span className="font-semibold">{budgetLabel}</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={isDynamic}
+            onChange={(e) => onChange(e.target.checked ? DYNAMIC_THINKING_BUDGET : limits.max / 2)}
+            disabled={disabled}
+          />
+          <span>{language === 'ar' ? 'ديناميكي' : 'Dynamic'}</span>
+        </label>
+      </div>
+      <input
+        id={`thinkingBudget-${model}`}
+        type="range"
+        className="w-full disabled:opacity-50"
+        min={sliderMin}
+        max={limits.max}
+        value={isDynamic ? limits.max / 2 : effectiveBudget}
+        onChange={(e) => onChange(clampThinkingBudget(model, Number(e.target.value)))}
+        disabled={disabled || isDynamic}
+      />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{limits.canDisable ? (language === 'ar' ? 'متوقف' : 'Off') : sliderMin}</span>
+        <span>{limits.max}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ThinkingBudgetControl;
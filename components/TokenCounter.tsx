@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Content } from '@google/genai';
+import { Language, SupportedModels } from '../types';
+import { TOKEN_COUNT_DEBOUNCE_MS } from '../constants';
+import { countTokens, GenerateContentOptions } from '../services/geminiService';
+import { estimateInputCost, formatCost, loadPriceTable } from '../services/usageService';
+
+interface TokenCounterProps {
+  model: SupportedModels;
+  prompt: string;
+  options?: GenerateContentOptions;
+  history?: Content[];
+  label?: string; // Shown before the count, e.g. the model name when several are listed
+  language: Language;
+  className?: string;
+}
+
+// Live count of the input tokens a request would send, re-counted shortly after the input stops changing.
+const TokenCounter: React.FC<TokenCounterProps> = ({ model, prompt, options, history, label, language, className = '' }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [counting, setCounting] = useState<boolean>(false);
+  const requestRef = useRef({ options, history });
+  requestRef.current = { options, history };
+
+  // Attachments are compared by size rather than content, which is enough to notice a change.
+  const signature = JSON.stringify([
+    model,
+    prompt,
+    options?.systemInstruction,
+    options?.images?.map(image => image.base64Data.length),
+    options?.frames?.map(frame => frame.base64Data.length),
+    options?.audio?.base64Data.length,
+    options?.documents?.map(doc => doc.id),
+    history?.reduce((parts, content) => parts + (content.parts?.length ?? 0), 0),
+  ]);
+  const isEmpty = !prompt.trim() && !options?.images?.length && !options?.frames?.length && !options?.audio && !options?.documents?.length;
+
+  useEffect(() => {
+    if (isEmpty) {
+      setCount(null);
+      return;
+    }
+    let cancelled = false;
+    setCounting(true);
+    const timeout = setTimeout(() => {
+      countTokens(model, prompt, requestRef.current.options, requestRef.current.history)
+        .then((total) => { if (!cancelled) setCount(total); })
+        .catch((error) => console.error('Token count failed:', error))
+        .finally(() => { if (!cancelled) setCounting(false); });
+    }, TOKEN_COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [signature, isEmpty]); // The signature covers the model, prompt and attachments
+
+  if (isEmpty || (count === null && !counting)) return null;
+
+  const cost = count !== null ? estimateInputCost(model, count, loadPriceTable()) : undefined;
+  return (
+    <p className={`text-xs text-gray-500 ${className}`}>
+      {label && `${label}: `}
+      {count === null
+        ? (language === 'ar' ? 'جارٍ عد الرموز...' : 'Counting tokens...')
+        : (language === 'ar' ? `≈ ${count.toLocaleString()} رمز إدخال` : `≈ ${count.toLocaleString()} input tokens`)}
+      {cost !== undefined && ` · ${language === 'ar' ? 'التكلفة التقديرية' : 'est.'} ${formatCost(cost)}`}
+      {counting && count !== null && ' …'}
+    </p>
+  );
+};
+
+export default TokenCounter;
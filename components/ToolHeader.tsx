@@ -0,0 +1,26 @@
+import React from 'react';
+import { Language } from '../types';
+
+interface ToolHeaderProps {
+  title: string;
+  language: Language;
+  onClear: () => void;
+  clearDisabled?: boolean;
+}
+
+const ToolHeader: React.FC<ToolHeaderProps> = ({ title, language, onClear, clearDisabled = false }) => {
+  return (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-2xl font-bold text-gray-800">{title}</h2>
+      <button
+        onClick={onClear}
+        disabled={clearDisabled}
+        className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+      >
+        {language === 'ar' ? 'مسح' : 'Clear'}
+      </button>
+    </div>
+  );
+};
+
+export default ToolHeader;
@@ -1,39 +1,35 @@
 import React, { useRef, useEffect } from 'react';
+import { LiveTurn } from '../types';
+import { formatVttTimestamp } from '../services/exportService';
 
 interface TranscriptionDisplayProps {
-  inputTranscription: string;
-  outputTranscription: string;
-  history: string[];
+  turns: LiveTurn[];
+  pendingTurns: LiveTurn[]; // Turns still being transcribed
 }
 
-const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
-  inputTranscription,
-  outputTranscription,
-  history,
-}) => {
+const TurnLine: React.FC<{ turn: LiveTurn; live?: boolean }> = ({ turn, live }) => (
+  <p className={turn.speaker === 'user' ? 'text-blue-700' : 'text-green-700'}>
+    <span className="text-xs text-gray-400 font-mono mr-2">{formatVttTimestamp(turn.startMs / 1000).slice(0, 8)}</span>
+    <strong>{turn.speaker === 'user' ? 'User' : 'AI'}{live && ' (Live)'}:</strong> {turn.text}
+    {turn.interrupted && <span className="ml-2 text-xs text-gray-500 italic">(interrupted)</span>}
+  </p>
+);
+
+const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ turns, pendingTurns }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [inputTranscription, outputTranscription, history]);
+  }, [turns, pendingTurns]);
 
   return (
     <div className="bg-gray-50 p-4 rounded-lg shadow-inner flex-1 max-h-96 overflow-y-auto" ref={scrollRef}>
       <h3 className="text-lg font-semibold mb-2 text-gray-800">Conversation Transcription:</h3>
       <div className="space-y-3">
-        {history.map((turn, index) => (
-          <p key={index} className={`text-gray-600 ${index % 2 === 0 ? 'text-blue-700' : 'text-green-700'}`}>
-            <strong>{index % 2 === 0 ? 'User:' : 'AI:'}</strong> {turn}
-          </p>
-        ))}
-        {inputTranscription && (
-          <p className="text-blue-700"><strong>User (Live):</strong> {inputTranscription}</p>
-        )}
-        {outputTranscription && (
-          <p className="text-green-700"><strong>AI (Live):</strong> {outputTranscription}</p>
-        )}
+        {turns.map((turn, index) => <TurnLine key={index} turn={turn} />)}
+        {pendingTurns.map((turn) => <TurnLine key={turn.speaker} turn={turn} live />)}
       </div>
     </div>
   );
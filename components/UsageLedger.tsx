@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Language, ModelPrice, PriceTable, SupportedModels, UsageRecord } from '../types';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+import { estimateCost, formatCost, loadPriceTable, savePriceTable, resetPriceTable } from '../services/usageService';
+
+interface UsageLedgerProps {
+  records: UsageRecord[];
+  onClear: () => void;
+  language: Language;
+}
+
+interface ModelTotals {
+  model: SupportedModels;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+  unpriced: boolean; // Some requests had no matching price
+}
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string; labelAr: string }[] = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens', labelAr: 'الإدخال / مليون رمز' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens', labelAr: 'الإخراج / مليون رمز' },
+  { key: 'perImage', label: 'Per image', labelAr: 'لكل صورة' },
+  { key: 'perVideoSecond', label: 'Per video second', labelAr: 'لكل ثانية فيديو' },
+];
+
+function totalsByModel(records: UsageRecord[], prices: PriceTable): ModelTotals[] {
+  const totals = new Map<SupportedModels, ModelTotals>();
+  for (const record of records) {
+    const entry = totals.get(record.model) ?? {
+      model: record.model, requests: 0, inputTokens: 0, outputTokens: 0, thoughtsTokens: 0, images: 0, videoSeconds: 0, cost: 0, unpriced: false,
+    };
+    const cost = estimateCost(record, prices);
+    entry.requests += 1;
+    entry.inputTokens += record.usage?.inputTokens ?? 0;
+    entry.outputTokens += record.usage?.outputTokens ?? 0;
+    entry.thoughtsTokens += record.usage?.thoughtsTokens ?? 0;
+    entry.images += record.images ?? 0;
+    entry.videoSeconds += record.videoSeconds ?? 0;
+    entry.cost += cost ?? 0;
+    entry.unpriced ||= cost === undefined;
+    totals.set(record.model, entry);
+  }
+  return Array.from(totals.values());
+}
+
+// Session usage per model with estimated cost, and the editable price table behind the estimates.
+const UsageLedger: React.FC<UsageLedgerProps> = ({ records, onClear, language }) => {
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [editingPrices, setEditingPrices] = useState<boolean>(false);
+  const totals = totalsByModel(records, prices);
+  const totalCost = totals.reduce((sum, entry) => sum + entry.cost, 0);
+
+  const updatePrice = (model: SupportedModels, key: keyof ModelPrice, value: string) => {
+    const next = { ...prices, [model]: { ...prices[model], [key]: value === '' ? undefined : Number(value) } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  return (
+    <details className="max-w-6xl mx-auto mt-6 bg-white shadow rounded-lg p-4">
+      <summary className="cursor-pointer text-lg font-semibold text-gray-800">
+        {language === 'ar'
+          ? `استخدام الجلسة: ${records.length} طلب · ≈ ${formatCost(totalCost)}`
+          : `Session usage: ${records.length} requests · ≈ ${formatCost(totalCost)}`}
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {totals.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">{language === 'ar' ? 'لا توجد طلبات بعد.' : 'No requests yet.'}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-gray-200">
+              <thead className="bg-gray-100">
+                <tr>
+                  {(language === 'ar'
+                    ? ['النموذج', 'الطلبات', 'إدخال', 'إخراج', 'تفكير', 'صور', 'ثواني فيديو', 'التكلفة التقديرية']
+                    : ['Model', 'Requests', 'Input', 'Output', 'Thinking', 'Images', 'Video seconds', 'Est. cost']
+                  ).map((heading) => (
+                    <th key={heading} className="px-3 py-2 text-left font-semibold text-gray-700 border-b border-gray-200">{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {totals.map((entry) => (
+                  <tr key={entry.model} className="odd:bg-white even:bg-gray-50">
+                    <td className="px-3 py-2 border-b border-gray-200 font-mono text-xs">{entry.model}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.requests}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.inputTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.outputTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.thoughtsTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.images}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">{entry.videoSeconds}</td>
+                    <td className="px-3 py-2 border-b border-gray-200">
+                      {formatCost(entry.cost)}
+                      {entry.unpriced && <span className="text-yellow-600" title={language === 'ar' ? 'بعض الطلبات بلا سعر' : 'Some requests have no price'}> *</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClear}
+            disabled={records.length === 0}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            {language === 'ar' ? 'مسح السجل' : 'Clear ledger'}
+          </button>
+          <button
+            onClick={() => setEditingPrices(!editingPrices)}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            {editingPrices ? (language === 'ar' ? 'إخفاء الأسعار' : 'Hide prices') : (language === 'ar' ? 'تعديل الأسعار' : 'Edit prices')}
+          </button>
+        </div>
+
+        {editingPrices && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              {language === 'ar'
+                ? 'الأسعار بالدولار الأمريكي. تُحتسب رموز التفكير كرموز إخراج.'
+                : 'Prices in USD. Thinking tokens are billed as output tokens.'}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm border border-gray-200">
+                <tbody>
+                  {(Object.keys(DEFAULT_PRICE_TABLE) as SupportedModels[]).map((model) => (
+                    <tr key={model} className="odd:bg-white even:bg-gray-50">
+                      <td className="px-3 py-2 border-b border-gray-200 font-mono text-xs">{model}</td>
+                      {PRICE_FIELDS.filter(field => DEFAULT_PRICE_TABLE[model][field.key] !== undefined).map((field) => (
+                        <td key={field.key} className="px-3 py-2 border-b border-gray-200">
+                          <label className="flex items-center gap-1 text-xs text-gray-600">
+                            <span>{language === 'ar' ? field.labelAr : field.label}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step="any"
+                              className="w-24 p-1 border border-gray-300 rounded-md text-sm"
+                              value={prices[model]?.[field.key] ?? ''}
+                              onChange={(e) => updatePrice(model, field.key, e.target.value)}
+                            />
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <button
+              onClick={() => setPrices(resetPriceTable())}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              {language === 'ar' ? 'استعادة الأسعار الافتراضية' : 'Restore default prices'}
+            </button>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default UsageLedger;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Language, SupportedModels, TokenUsage } from '../types';
+import { estimateCost, formatCost, loadPriceTable } from '../services/usageService';
+
+interface UsageSummaryProps {
+  model: SupportedModels;
+  usage: TokenUsage;
+  language: Language;
+  className?: string;
+}
+
+// Actual token usage reported for a response, with its estimated cost.
+const UsageSummary: React.FC<UsageSummaryProps> = ({ model, usage, language, className = '' }) => {
+  const cost = estimateCost({ model, usage }, loadPriceTable());
+  return (
+    <p className={`text-xs text-gray-500 ${className}`}>
+      {language === 'ar'
+        ? `إدخال ${usage.inputTokens.toLocaleString()} · إخراج ${usage.outputTokens.toLocaleString()} · تفكير ${usage.thoughtsTokens.toLocaleString()}`
+        : `Input ${usage.inputTokens.toLocaleString()} · Output ${usage.outputTokens.toLocaleString()} · Thinking ${usage.thoughtsTokens.toLocaleString()}`}
+      {cost !== undefined && ` · ≈ ${formatCost(cost)}`}
+    </p>
+  );
+};
+
+export default UsageSummary;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Language, VideoJob, VideoJobStatus } from '../types';
+import VideoPlayer from './VideoPlayer';
+
+interface VideoJobListProps {
+  jobs: VideoJob[];
+  videoUrls: Record<string, string>;
+  now: number;
+  onCancel: (job: VideoJob) => void;
+  onRemove: (job: VideoJob) => void;
+  onDownload: (job: VideoJob) => void;
+  onRetryDownload: (job: VideoJob) => void;
+  onExtend?: (job: VideoJob) => void;
+  language: Language;
+}
+
+const STATUS_STYLES: Record<VideoJobStatus, string> = {
+  running: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+};
+
+const STATUS_LABELS: Record<VideoJobStatus, { en: string; ar: string }> = {
+  running: { en: 'Generating', ar: 'قيد التوليد' },
+  succeeded: { en: 'Ready', ar: 'جاهز' },
+  failed: { en: 'Failed', ar: 'فشل' },
+  cancelled: { en: 'Cancelled', ar: 'ملغى' },
+};
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+const VideoJobList: React.FC<VideoJobListProps> = ({ jobs, videoUrls, now, onCancel, onRemove, onDownload, onRetryDownload, onExtend, language }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h3 className="text-xl font-semibold text-gray-800">{language === 'ar' ? 'مهام الفيديو:' : 'Video Jobs:'}</h3>
+      {jobs.map((job) => (
+        <div key={job.id} className="bg-gray-50 p-4 rounded-md shadow-inner space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800 truncate" title={job.prompt}>{job.prompt || (language === 'ar' ? '(بدون وصف)' : '(no prompt)')}</p>
+              <p className="text-xs text-gray-500">
+                {job.sourceJobId && (language === 'ar' ? 'تمديد · ' : 'Extension · ')}
+                {job.model} · {job.aspectRatio} · {job.resolution} · {language === 'ar' ? 'المدة:' : 'Elapsed:'} {formatElapsed((job.finishedAt ?? now) - job.createdAt)}
+              </p>
+            </div>
+            <span className={`shrink-0 px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status]}`}>
+              {STATUS_LABELS[job.status][language]}
+            </span>
+          </div>
+          {job.error && <p className="text-sm text-red-700">{job.error}</p>}
+          {job.downloadError && (
+            <p className="text-sm text-red-700">
+              {language === 'ar' ? 'فشل تنزيل الفيديو: ' : 'Failed to download the video: '}{job.downloadError}
+            </p>
+          )}
+          {videoUrls[job.id] && (
+            <div className="flex justify-center">
+              <VideoPlayer src={videoUrls[job.id]} controls loop />
+            </div>
+          )}
+          <div className="flex space-x-2">
+            {job.status === 'running' && (
+              <button
+                onClick={() => onCancel(job)}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+              </button>
+            )}
+            {videoUrls[job.id] && (
+              <button
+                onClick={() => onDownload(job)}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                {language === 'ar' ? 'تنزيل' : 'Download'}
+              </button>
+            )}
+            {job.downloadError && (
+              <button
+                onClick={() => onRetryDownload(job)}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                {language === 'ar' ? 'إعادة محاولة التنزيل' : 'Retry download'}
+              </button>
+            )}
+            {onExtend && job.status === 'succeeded' && job.videoUri && (
+              <button
+                onClick={() => onExtend(job)}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'تمديد' : 'Extend'}
+              </button>
+            )}
+            <button
+              onClick={() => onRemove(job)}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-red-100 hover:text-red-700"
+            >
+              {job.status === 'running' ? (language === 'ar' ? 'تخلٍّ' : 'Abandon') : (language === 'ar' ? 'إزالة' : 'Remove')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VideoJobList;
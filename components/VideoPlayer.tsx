@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { forwardRef } from 'react';
 
 interface VideoPlayerProps {
   src: string;
@@ -9,16 +9,17 @@ interface VideoPlayerProps {
   muted?: boolean;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({
+const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(({
   src,
   className,
   autoplay = false,
   controls = true,
   loop = false,
   muted = false,
-}) => {
+}, ref) => {
   return (
     <video
+      ref={ref}
       src={src}
       className={`w-full max-w-md h-auto rounded-lg shadow-lg ${className}`}
       autoPlay={autoplay}
@@ -30,6 +31,6 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       Your browser does not support the video tag.
     </video>
   );
-};
+});
 
 export default VideoPlayer;
@@ -0,0 +1,198 @@
+import React, { useReducer, useCallback, useEffect, useMemo, useState } from 'react';
+import { listAssets, deleteAssets, assetFilename, blobToImageInput } from '../../services/assetService';
+import { downloadBlob } from '../../services/exportService';
+import { Asset, Tab, ToolProps } from '../../types';
+import { assetLibraryReducer, initialAssetLibraryState } from '../../stores/assetLibraryStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+
+// Tools whose outputs are saved to the library.
+const ASSET_TOOLS: Tab[] = [Tab.IMAGE_GENERATION, Tab.IMAGE_EDITING, Tab.VIDEO_GENERATION, Tab.TEXT_TO_SPEECH];
+
+const AssetLibraryTool: React.FC<ToolProps> = ({ language, isActive, onSendImage }) => {
+  const [state, dispatch] = useReducer(assetLibraryReducer, initialAssetLibraryState);
+  const [assetUrls, setAssetUrls] = useState<Record<string, string>>({});
+
+  // Reload whenever the library is opened so newly generated assets show up.
+  useEffect(() => {
+    if (!isActive) return;
+    dispatch({ type: 'SET_LOADING', payload: true });
+    listAssets()
+      .then((assets) => dispatch({
+        type: 'UPDATE',
+        payload: (prev) => ({ assets, selectedIds: prev.selectedIds.filter(id => assets.some(a => a.id === id)) }),
+      }))
+      .catch((error) => dispatch({ type: 'SET_ERROR', payload: `Failed to load the asset library: ${error.message}` }))
+      .finally(() => dispatch({ type: 'SET_LOADING', payload: false }));
+  }, [isActive]);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    for (const asset of state.assets) {
+      urls[asset.id] = URL.createObjectURL(asset.blob);
+    }
+    setAssetUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [state.assets]);
+
+  const visibleAssets = useMemo(() => {
+    const query = state.search.trim().toLowerCase();
+    return state.assets.filter(asset =>
+      (state.toolFilter === 'all' || asset.tool === state.toolFilter) &&
+      (!query || asset.prompt.toLowerCase().includes(query) || asset.model.toLowerCase().includes(query))
+    );
+  }, [state.assets, state.search, state.toolFilter]);
+
+  const selectedAssets = state.assets.filter(asset => state.selectedIds.includes(asset.id));
+
+  const toggleSelected = useCallback((id: string) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        selectedIds: prev.selectedIds.includes(id) ? prev.selectedIds.filter(s => s !== id) : [...prev.selectedIds, id],
+      }),
+    });
+  }, []);
+
+  const handleBulkDownload = useCallback(() => {
+    for (const asset of selectedAssets) {
+      downloadBlob(asset.blob, assetFilename(asset));
+    }
+  }, [selectedAssets]);
+
+  const handleBulkDelete = useCallback(async () => {
+    const ids = state.selectedIds;
+    if (ids.length === 0) return;
+    if (!window.confirm(language === 'ar' ? `حذف ${ids.length} من العناصر؟` : `Delete ${ids.length} asset(s)?`)) return;
+    try {
+      await deleteAssets(ids);
+      dispatch({ type: 'UPDATE', payload: (prev) => ({ assets: prev.assets.filter(a => !ids.includes(a.id)), selectedIds: [] }) });
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: `Failed to delete assets: ${(error as Error).message}` });
+    }
+  }, [state.selectedIds, language]);
+
+  const handleSend = useCallback(async (asset: Asset, target: Tab) => {
+    if (!onSendImage) return;
+    try {
+      const file = new File([asset.blob], assetFilename(asset), { type: asset.mimeType });
+      onSendImage(target, file, await blobToImageInput(asset.blob));
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: `Failed to send asset: ${(error as Error).message}` });
+    }
+  }, [onSendImage]);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'مكتبة الأصول' : 'Asset Library'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <div className="flex flex-wrap gap-4">
+        <input
+          type="search"
+          className="flex-1 min-w-[12rem] p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          value={state.search}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { search: e.target.value } })}
+          placeholder={language === 'ar' ? 'ابحث في الأوصاف والنماذج...' : 'Search prompts and models...'}
+        />
+        <select
+          className="block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.toolFilter}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { toolFilter: e.target.value as Tab | 'all' } })}
+        >
+          <option value="all">{language === 'ar' ? 'كل الأدوات' : 'All tools'}</option>
+          {ASSET_TOOLS.map((tool) => (
+            <option key={tool} value={tool}>{tool}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-sm text-gray-600">
+          {language === 'ar' ? `المحدد: ${state.selectedIds.length}` : `${state.selectedIds.length} selected`}
+        </span>
+        <button
+          onClick={() => dispatch({ type: 'UPDATE', payload: { selectedIds: visibleAssets.map(a => a.id) } })}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+          disabled={visibleAssets.length === 0}
+        >
+          {language === 'ar' ? 'تحديد الكل' : 'Select All'}
+        </button>
+        <button
+          onClick={handleBulkDownload}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          disabled={selectedAssets.length === 0}
+        >
+          {language === 'ar' ? 'تنزيل المحدد' : 'Download Selected'}
+        </button>
+        <button
+          onClick={handleBulkDelete}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-red-500 text-white hover:bg-red-600 disabled:opacity-50"
+          disabled={selectedAssets.length === 0}
+        >
+          {language === 'ar' ? 'حذف المحدد' : 'Delete Selected'}
+        </button>
+      </div>
+
+      {visibleAssets.length === 0 && !state.loading && (
+        <p className="text-gray-500 text-center italic">
+          {language === 'ar' ? 'لا توجد أصول بعد. ستظهر هنا الصور والفيديوهات والمقاطع الصوتية المولدة.' : 'No assets yet. Generated images, videos and audio clips will appear here.'}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {visibleAssets.map((asset) => (
+          <div
+            key={asset.id}
+            className={`rounded-lg border p-3 space-y-2 ${state.selectedIds.includes(asset.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+          >
+            <label className="flex items-center space-x-2 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                checked={state.selectedIds.includes(asset.id)}
+                onChange={() => toggleSelected(asset.id)}
+              />
+              <span>{asset.tool} · {new Date(asset.createdAt).toLocaleString()}</span>
+            </label>
+            {assetUrls[asset.id] && asset.kind === 'image' && (
+              <img src={assetUrls[asset.id]} alt={asset.prompt} className="w-full h-auto rounded-md" />
+            )}
+            {assetUrls[asset.id] && asset.kind === 'video' && (
+              <video src={assetUrls[asset.id]} controls playsInline className="w-full h-auto rounded-md"></video>
+            )}
+            {assetUrls[asset.id] && asset.kind === 'audio' && (
+              <audio src={assetUrls[asset.id]} controls className="w-full"></audio>
+            )}
+            <p className="text-sm text-gray-700 line-clamp-3" title={asset.prompt}>{asset.prompt}</p>
+            <p className="text-xs text-gray-500">{asset.model}{asset.aspectRatio ? ` · ${asset.aspectRatio}` : ''}</p>
+            {asset.kind === 'image' && onSendImage && (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleSend(asset, Tab.IMAGE_EDITING)}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+                >
+                  {language === 'ar' ? 'إرسال إلى تحرير الصور' : 'Send to Image Editing'}
+                </button>
+                <button
+                  onClick={() => handleSend(asset, Tab.VIDEO_GENERATION)}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+                >
+                  {language === 'ar' ? 'إرسال إلى توليد الفيديو' : 'Send to Video Generation'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AssetLibraryTool;
@@ -0,0 +1,355 @@
+import React, { useReducer, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Chat, FunctionCall, SendMessageParameters } from '@google/genai';
+import { getGeminiClient, handleApiError, isAbortError } from '../../services/geminiService';
+import { listConversations, createConversation, saveConversation, deleteConversation, toChatHistory } from '../../services/conversationService';
+import { usageFromMetadata, addUsage } from '../../services/usageService';
+import { loadPlaygroundFunctions, savePlaygroundFunctions, toFunctionTool, executeFunctionCall } from '../../services/functionPlaygroundService';
+import { GEMINI_FLASH_MODEL, MAX_FUNCTION_CALL_ROUNDS } from '../../constants';
+import { ChatMessage, Conversation, FunctionCallTrace, Tab, TokenUsage, ToolProps } from '../../types';
+import { chatbotReducer, initialChatbotState } from '../../stores/chatbotStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import ConversationSidebar from '../ConversationSidebar';
+import FunctionPlaygroundPanel from '../FunctionPlaygroundPanel';
+import DocumentAttachments from '../DocumentAttachments';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const ChatbotTool: React.FC<ToolProps> = ({ language, onUsage }) => {
+  const [state, dispatch] = useReducer(
+    chatbotReducer,
+    initialChatbotState,
+    (initial) => ({ ...initial, functions: loadPlaygroundFunctions() }),
+  );
+  const chatInstance = useRef<Chat | null>(null);
+  const chatInputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [draft, setDraft] = useState<string>(''); // Mirrors the input for the token counter
+  const counterHistory = useMemo(() => toChatHistory(state.messages, state.documents), [state.messages, state.documents]);
+
+  // Load saved conversations
+  useEffect(() => {
+    listConversations()
+      .then((conversations) => dispatch({ type: 'UPDATE', payload: { conversations } }))
+      .catch((error) => {
+        console.error('Failed to load conversations:', error);
+        dispatch({ type: 'SET_ERROR', payload: `Failed to load saved conversations: ${error.message}` });
+      });
+  }, []);
+
+  useEffect(() => {
+    savePlaygroundFunctions(state.functions);
+  }, [state.functions]);
+
+  // The chat session fixes its tools and documents when created, so rebuild it after either changes.
+  useEffect(() => {
+    chatInstance.current = null;
+  }, [state.functionMode, state.functions, state.documents]);
+
+  const initializeChat = useCallback(async (history: ChatMessage[]) => {
+    if (chatInstance.current) return;
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    try {
+      const ai = getGeminiClient();
+      chatInstance.current = ai.chats.create({
+        model: GEMINI_FLASH_MODEL,
+        config: {
+          systemInstruction: 'You are a friendly and helpful chatbot assistant.',
+          tools: state.functionMode && state.functions.length > 0 ? [toFunctionTool(state.functions)] : undefined,
+        },
+        history: toChatHistory(history, state.documents), // Restores context when resuming a saved conversation
+      });
+      console.log("Chat initialized.");
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.functionMode, state.functions, state.documents]);
+
+  const persistConversation = useCallback((conversation: Conversation) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ conversations: [conversation, ...prev.conversations.filter(c => c.id !== conversation.id)] }),
+    });
+    saveConversation(conversation).catch((error) => {
+      console.error('Failed to save conversation:', error);
+      dispatch({ type: 'SET_ERROR', payload: `Failed to save conversation: ${error.message}` });
+    });
+  }, []);
+
+  const handleChatMessageSend = useCallback(async () => {
+    if (!chatInputRef.current?.value.trim()) return;
+    const userMessage = chatInputRef.current.value.trim();
+    const conversation = state.conversations.find(c => c.id === state.activeConversationId) ?? createConversation(userMessage);
+    const priorMessages = conversation.messages;
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ activeConversationId: conversation.id, messages: [...prev.messages, { role: 'user', content: userMessage }] }),
+    });
+    chatInputRef.current.value = '';
+    setDraft('');
+
+    if (!chatInstance.current) {
+      await initializeChat(priorMessages);
+      if (!chatInstance.current) { // If initialization failed
+        dispatch({ type: 'UPDATE', payload: (prev) => ({ messages: prev.messages.slice(0, -1) }) }); // Remove user message if chat failed to initialize
+        return;
+      }
+    }
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let fullResponse = '';
+    const traces: FunctionCallTrace[] = [];
+    let usage: TokenUsage | undefined;
+    const modelReply = (): ChatMessage => ({
+      role: 'model',
+      content: fullResponse,
+      ...(traces.length > 0 ? { functionCalls: [...traces] } : {}),
+      ...(usage ? { usage } : {}),
+    });
+    const showReply = () => dispatch({
+      type: 'UPDATE',
+      payload: (prev) => {
+        const lastMessage = prev.messages[prev.messages.length - 1];
+        if (lastMessage && lastMessage.role === 'model') {
+          return { messages: [...prev.messages.slice(0, -1), modelReply()] };
+        } else {
+          return { messages: [...prev.messages, modelReply()] };
+        }
+      },
+    });
+    try {
+      // Each round answers the model's function calls with their results, until it replies
+      // without calling anything.
+      let message: SendMessageParameters['message'] = userMessage;
+      for (let round = 0; ; round++) {
+        const responseStream = await chatInstance.current.sendMessageStream({
+          message,
+          config: { abortSignal: abortController.signal },
+        });
+        const calls: FunctionCall[] = [];
+        let roundUsage: TokenUsage | undefined;
+        for await (const chunk of responseStream) {
+          fullResponse += chunk.text ?? '';
+          calls.push(...(chunk.functionCalls ?? []));
+          roundUsage = usageFromMetadata(chunk.usageMetadata) ?? roundUsage;
+          showReply();
+        }
+        usage = addUsage(usage, roundUsage);
+        showReply();
+        if (calls.length === 0) break;
+        if (round === MAX_FUNCTION_CALL_ROUNDS) {
+          dispatch({ type: 'SET_ERROR', payload: `Stopped after ${MAX_FUNCTION_CALL_ROUNDS} rounds of function calls without a final reply.` });
+          // The session now ends on unanswered function calls, which the API rejects on the next
+          // message, so rebuild it from the saved conversation instead.
+          chatInstance.current = null;
+          break;
+        }
+        const results = await Promise.all(calls.map(call => executeFunctionCall(call, state.functions)));
+        traces.push(...results);
+        showReply();
+        message = calls.map((call, index) => ({
+          functionResponse: {
+            id: call.id,
+            name: call.name,
+            response: results[index].error !== undefined ? { error: results[index].error } : { result: results[index].response },
+          },
+        }));
+      }
+      persistConversation({
+        ...conversation,
+        documents: state.documents,
+        messages: [...priorMessages, { role: 'user', content: userMessage }, modelReply()],
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      if (isAbortError(error, abortController.signal)) {
+        // Keep the partial reply. The chat session never recorded this turn, so it is rebuilt
+        // from the saved conversation on the next message.
+        chatInstance.current = null;
+        persistConversation({
+          ...conversation,
+          documents: state.documents,
+          messages: [...priorMessages, { role: 'user', content: userMessage }, ...(fullResponse || traces.length > 0 ? [modelReply()] : [])],
+          updatedAt: Date.now(),
+        });
+      } else {
+        // The session may hold function-call turns from earlier rounds, so rebuild it, and drop
+        // the failed user message with any partial reply so the UI matches the saved history.
+        chatInstance.current = null;
+        dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+        dispatch({
+          type: 'UPDATE',
+          payload: (prev) => {
+            const userIndex = prev.messages.map(m => m.role).lastIndexOf('user');
+            return { messages: userIndex >= 0 ? prev.messages.slice(0, userIndex) : prev.messages };
+          },
+        });
+      }
+    } finally {
+      if (usage) {
+        onUsage?.({ tool: Tab.CHATBOT, model: GEMINI_FLASH_MODEL, usage });
+      }
+      abortControllerRef.current = null;
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [onUsage, initializeChat, persistConversation, state.conversations, state.activeConversationId, state.functions, state.documents]);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const handleNewConversation = useCallback(() => {
+    dispatch({ type: 'CLEAR' });
+    chatInstance.current = null;
+  }, []);
+
+  const handleSelectConversation = useCallback((conversation: Conversation) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: { activeConversationId: conversation.id, messages: conversation.messages, documents: conversation.documents ?? [] },
+    });
+    chatInstance.current = null; // Re-created with this conversation's history on the next message
+  }, []);
+
+  const handleRenameConversation = useCallback((conversation: Conversation, title: string) => {
+    persistConversation({ ...conversation, title });
+  }, [persistConversation]);
+
+  const handleDeleteConversation = useCallback(async (conversation: Conversation) => {
+    try {
+      await deleteConversation(conversation.id);
+      dispatch({ type: 'UPDATE', payload: (prev) => ({ conversations: prev.conversations.filter(c => c.id !== conversation.id) }) });
+      if (conversation.id === state.activeConversationId) {
+        handleNewConversation();
+      }
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: `Failed to delete conversation: ${(error as Error).message}` });
+    }
+  }, [state.activeConversationId, handleNewConversation]);
+
+  return (
+    <div className="flex gap-4 h-[70vh]">
+      <ConversationSidebar
+        conversations={state.conversations}
+        activeConversationId={state.activeConversationId}
+        onSelect={handleSelectConversation}
+        onCreate={handleNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+        language={language}
+        disabled={state.loading}
+      />
+      <div className="space-y-6 flex flex-col flex-1 min-w-0">
+        <ToolHeader
+          title={language === 'ar' ? 'روبوت الدردشة' : 'Chatbot'}
+          language={language}
+          onClear={handleNewConversation}
+          clearDisabled={state.loading}
+        />
+        {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+
+        <FunctionPlaygroundPanel
+          enabled={state.functionMode}
+          functions={state.functions}
+          onEnabledChange={(functionMode) => dispatch({ type: 'UPDATE', payload: { functionMode } })}
+          onFunctionsChange={(functions) => dispatch({ type: 'UPDATE', payload: { functions } })}
+          language={language}
+          disabled={state.loading}
+        />
+
+        <div className="flex-1 bg-gray-50 p-4 rounded-lg shadow-inner overflow-y-auto flex flex-col space-y-3">
+          {state.messages.length === 0 && (
+            <p className="text-gray-500 text-center italic">
+              {language === 'ar' ? 'ابدأ الدردشة مع مساعد Gemini.' : 'Start a conversation with the Gemini assistant.'}
+            </p>
+          )}
+          {state.messages.map((msg, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-lg max-w-[80%] ${
+                msg.role === 'user'
+                  ? 'bg-blue-100 text-blue-800 self-end ' + (language === 'ar' ? 'text-right' : 'text-left')
+                  : 'bg-green-100 text-green-800 self-start ' + (language === 'ar' ? 'text-right' : 'text-left')
+              }`}
+            >
+              {msg.functionCalls?.map((trace, traceIndex) => (
+                <details key={traceIndex} className="mb-2 text-xs font-mono bg-white/60 rounded p-2">
+                  <summary className="cursor-pointer">
+                    {trace.error !== undefined ? '✕' : '✓'} {trace.name}({JSON.stringify(trace.args)})
+                  </summary>
+                  <pre className={`whitespace-pre-wrap mt-1 ${trace.error !== undefined ? 'text-red-700' : 'text-gray-700'}`}>
+                    {trace.error ?? JSON.stringify(trace.response, null, 2)}
+                  </pre>
+                </details>
+              ))}
+              <strong>{msg.role === 'user' ? (language === 'ar' ? 'أنت:' : 'You:') : (language === 'ar' ? 'جميني:' : 'Gemini:')}</strong> {msg.content}
+              {msg.usage && <UsageSummary model={GEMINI_FLASH_MODEL} usage={msg.usage} language={language} className="mt-1" />}
+            </div>
+          ))}
+          {state.loading && (
+            <div className={`self-start ${language === 'ar' ? 'text-right' : 'text-left'}`}>
+              <LoadingSpinner message={language === 'ar' ? 'جميني يكتب...' : 'Gemini is typing...'} className="!p-0 !h-auto !w-auto" />
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 sticky bottom-0 bg-white pt-4 space-y-2">
+          <div className="flex gap-2">
+            <textarea
+              ref={chatInputRef}
+              className="flex-1 p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-none"
+              rows={2}
+              placeholder={language === 'ar' ? 'اكتب رسالتك هنا...' : 'Type your message here...'}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleChatMessageSend();
+                }
+              }}
+              disabled={state.loading}
+            ></textarea>
+            {state.loading ? (
+              <button
+                onClick={handleStop}
+                className="bg-red-500 text-white py-2 px-4 rounded-md text-lg font-semibold hover:bg-red-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+              >
+                {language === 'ar' ? 'إيقاف' : 'Stop'}
+              </button>
+            ) : (
+              <button
+                onClick={handleChatMessageSend}
+                className="bg-blue-600 text-white py-2 px-4 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                {language === 'ar' ? 'إرسال' : 'Send'}
+              </button>
+            )}
+          </div>
+          <TokenCounter
+            model={GEMINI_FLASH_MODEL}
+            prompt={draft}
+            history={counterHistory}
+            language={language}
+          />
+          <DocumentAttachments
+            documents={state.documents}
+            onChange={(documents) => dispatch({ type: 'UPDATE', payload: { documents } })}
+            onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+            language={language}
+            disabled={state.loading}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatbotTool;
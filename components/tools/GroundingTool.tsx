@@ -0,0 +1,224 @@
+import React, { useReducer, useCallback, useEffect, useRef } from 'react';
+import { Tool } from '@google/genai';
+import { generateContentStream, handleApiError, extractGroundingChunks, isAbortError } from '../../services/geminiService';
+import { usageFromMetadata } from '../../services/usageService';
+import { GEMINI_FLASH_MODEL } from '../../constants';
+import { GroundingChunk, Tab, TokenUsage, ToolProps } from '../../types';
+import { groundingReducer, initialGroundingState } from '../../stores/groundingStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const GroundingTool: React.FC<ToolProps> = ({ language, isActive, onUsage }) => {
+  const [state, dispatch] = useReducer(groundingReducer, initialGroundingState);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Geolocation effect for Maps Grounding
+  useEffect(() => {
+    if (isActive && state.tools.googleMaps) {
+      if (navigator.geolocation) {
+        navigator.geolocation.getCurrentPosition(
+          (position) => {
+            dispatch({ type: 'UPDATE', payload: { geolocation: position } });
+            dispatch({ type: 'SET_ERROR', payload: null });
+          },
+          (error) => {
+            dispatch({ type: 'SET_ERROR', payload: `Geolocation error: ${error.message}` });
+            dispatch({ type: 'UPDATE', payload: { geolocation: null } });
+          },
+          { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
+        );
+      } else {
+        dispatch({ type: 'SET_ERROR', payload: 'Geolocation is not supported by your browser.' });
+      }
+    }
+  }, [isActive, state.tools.googleMaps]);
+
+  const handleGroundingSearch = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { response: '', links: [], usage: null } });
+
+    const tools: Tool[] = [];
+    if (state.tools.googleSearch) {
+      tools.push({ googleSearch: {} });
+    }
+    if (state.tools.googleMaps) {
+      tools.push({ googleMaps: {} });
+      if (!state.geolocation) {
+        dispatch({ type: 'SET_ERROR', payload: 'Geolocation is required for Google Maps grounding.' });
+        dispatch({ type: 'SET_LOADING', payload: false });
+        return;
+      }
+    }
+
+    if (tools.length === 0) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please select at least one grounding tool.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let usage: TokenUsage | undefined;
+    try {
+      // Grounding metadata can arrive on any chunk, so sources are collected as the stream goes.
+      const links: GroundingChunk[] = [];
+      await generateContentStream(
+        GEMINI_FLASH_MODEL,
+        state.prompt,
+        {
+          tools: tools,
+          geolocation: state.geolocation,
+          abortSignal: abortController.signal,
+        },
+        (chunk, text) => {
+          usage = usageFromMetadata(chunk.usageMetadata) ?? usage;
+          for (const link of extractGroundingChunks(chunk)) {
+            const uri = link.web?.uri ?? link.maps?.uri;
+            if (!links.some(existing => (existing.web?.uri ?? existing.maps?.uri) === uri)) {
+              links.push(link);
+            }
+          }
+          dispatch({ type: 'UPDATE', payload: { response: text, links: [...links] } });
+        }
+      );
+    } catch (error) {
+      if (!isAbortError(error, abortController.signal)) {
+        dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+      }
+    } finally {
+      if (usage) {
+        dispatch({ type: 'UPDATE', payload: { usage } });
+        onUsage?.({ tool: Tab.GROUNDING, model: GEMINI_FLASH_MODEL, usage });
+      }
+      abortControllerRef.current = null;
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [onUsage, state.prompt, state.tools, state.geolocation]);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'التأريض (Search & Maps)' : 'Grounding (Search & Maps)'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <div>
+        <label htmlFor="groundingPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل استفسارك (على سبيل المثال، "من فاز بأكبر عدد من الميداليات الذهبية في أولمبياد باريس 2024؟" أو "ما هي المطاعم الإيطالية الجيدة القريبة؟"):' : 'Enter your query (e.g., "Who won the most gold medals at the Paris Olympics in 2024?" or "What good Italian restaurants are nearby?"): '}
+        </label>
+        <textarea
+          id="groundingPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={4}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'أدخل استفسارك هنا...' : 'Enter your query here...'}
+        ></textarea>
+        <TokenCounter model={GEMINI_FLASH_MODEL} prompt={state.prompt} language={language} className="mt-1" />
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={state.tools.googleSearch}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: (prev) => ({ tools: { ...prev.tools, googleSearch: e.target.checked } }) })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className={`ml-2 text-sm font-medium text-gray-700 ${language === 'ar' ? 'mr-2' : ''}`}>
+            {language === 'ar' ? 'بحث جوجل' : 'Google Search'}
+          </span>
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={state.tools.googleMaps}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: (prev) => ({ tools: { ...prev.tools, googleMaps: e.target.checked } }) })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className={`ml-2 text-sm font-medium text-gray-700 ${language === 'ar' ? 'mr-2' : ''}`}>
+            {language === 'ar' ? 'خرائط جوجل' : 'Google Maps'}
+          </span>
+        </label>
+      </div>
+
+      {state.tools.googleMaps && !state.geolocation && !state.loading && (
+        <ErrorMessage message={language === 'ar' ? 'جارٍ الحصول على موقعك... يرجى السماح بالوصول إلى الموقع.' : 'Getting your location... Please allow location access.'} />
+      )}
+      {state.tools.googleMaps && state.geolocation && (
+        <p className="text-sm text-green-700">
+          {language === 'ar' ? `تم الحصول على الموقع: خط العرض ${state.geolocation.coords.latitude.toFixed(4)}, خط الطول ${state.geolocation.coords.longitude.toFixed(4)}` : `Location obtained: Lat ${state.geolocation.coords.latitude.toFixed(4)}, Lng ${state.geolocation.coords.longitude.toFixed(4)}`}
+        </p>
+      )}
+
+
+      {state.loading ? (
+        <button
+          onClick={handleStop}
+          className="w-full bg-red-500 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-red-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        >
+          {language === 'ar' ? 'إيقاف' : 'Stop'}
+        </button>
+      ) : (
+        <button
+          onClick={handleGroundingSearch}
+          className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          disabled={!state.prompt.trim() || (state.tools.googleMaps && !state.geolocation)}
+        >
+          {language === 'ar' ? 'تشغيل البحث' : 'Run Grounded Search'}
+        </button>
+      )}
+
+      {state.response && (
+        <div className="mt-6 bg-gray-50 p-4 rounded-md shadow-inner">
+          <h3 className="text-xl font-semibold text-gray-800 mb-2">{language === 'ar' ? 'الاستجابة:' : 'Response:'}</h3>
+          <div className="whitespace-pre-wrap text-gray-700">{state.response}</div>
+          {state.usage && <UsageSummary model={GEMINI_FLASH_MODEL} usage={state.usage} language={language} className="mt-3" />}
+
+          {state.links.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-lg font-semibold text-gray-800 mb-2">{language === 'ar' ? 'المصادر:' : 'Sources:'}</h4>
+              <ul className="list-disc pl-5 space-y-1">
+                {state.links.map((chunk, index) => (
+                  <li key={index}>
+                    {chunk.web && (
+                      <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
+                        {chunk.web.title || chunk.web.uri}
+                      </a>
+                    )}
+                    {chunk.maps && (
+                      <div>
+                        <a href={chunk.maps.uri} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
+                          {chunk.maps.title || chunk.maps.uri}
+                        </a>
+                        {chunk.maps.placeAnswerSources?.reviewSnippets?.map((snippet, sIdx) => (
+                          <p key={sIdx} className="ml-4 text-sm text-gray-600 italic">
+                            "{snippet.reviewSnippet}" - <a href={snippet.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Review Link</a>
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroundingTool;
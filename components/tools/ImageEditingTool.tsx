@@ -0,0 +1,348 @@
+import React, { useReducer, useCallback, useEffect } from 'react';
+import { Modality } from '@google/genai';
+import { getGeminiClient, handleApiError } from '../../services/geminiService';
+import { saveAsset, base64ToBlob } from '../../services/assetService';
+import { compositeMaskedEdit } from '../../services/maskService';
+import { usageFromMetadata } from '../../services/usageService';
+import { GEMINI_FLASH_IMAGE_MODEL, MAX_EDIT_IMAGES } from '../../constants';
+import { EditStep, ImageInput, MaskTool, Tab, ToolProps, UploadedImage } from '../../types';
+import { imageEditingReducer, initialImageEditingState } from '../../stores/imageEditingStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import MultiImageUploader from '../MultiImageUploader';
+import EditTimeline from '../EditTimeline';
+import MaskEditor from '../MaskEditor';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const createRootStep = (image: ImageInput): EditStep => ({
+  id: crypto.randomUUID(),
+  parentId: null,
+  prompt: '',
+  image,
+  createdAt: Date.now(),
+});
+
+const toDataUrl = (image: ImageInput) => `data:${image.mimeType};base64,${image.base64Data}`;
+
+const MASK_INSTRUCTION = 'The last image is a mask for image 1. Apply the edit only to the region that is white in the mask and leave everything else unchanged.';
+
+const ImageEditingTool: React.FC<ToolProps> = ({ language, incomingImage, onUsage }) => {
+  const [state, dispatch] = useReducer(imageEditingReducer, initialImageEditingState);
+
+  const currentStep = state.steps.find(step => step.id === state.currentStepId) ?? null;
+  const parentStep = currentStep?.parentId ? state.steps.find(step => step.id === currentStep.parentId) ?? null : null;
+
+  // Image sent here from another tool starts a new editing session
+  useEffect(() => {
+    if (incomingImage) {
+      const root = createRootStep(incomingImage.image);
+      dispatch({
+        type: 'UPDATE',
+        payload: { images: [{ id: incomingImage.id, file: incomingImage.file, image: incomingImage.image }], steps: [root], currentStepId: root.id, redoStepIds: [] },
+      });
+    }
+  }, [incomingImage]);
+
+  // A mask is drawn over one particular step, so it is dropped whenever the step changes.
+  useEffect(() => {
+    dispatch({ type: 'UPDATE', payload: { mask: null } });
+  }, [state.currentStepId]);
+
+  const handleImageEditing = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    if (!currentStep) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please upload an image to edit.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const mask = state.maskEnabled ? state.mask : null;
+    const extraImages = state.images.slice(1).map(item => item.image);
+    try {
+      const ai = getGeminiClient();
+      const response = await ai.models.generateContent({
+        model: GEMINI_FLASH_IMAGE_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                data: currentStep.image.base64Data,
+                mimeType: currentStep.image.mimeType,
+              },
+            },
+            ...extraImages.map(image => ({ inlineData: { data: image.base64Data, mimeType: image.mimeType } })),
+            ...(mask ? [{ inlineData: { data: mask.base64Data, mimeType: mask.mimeType } }] : []),
+            {
+              text: mask ? `${state.prompt}\n\n${MASK_INSTRUCTION}` : state.prompt,
+            },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const usage = usageFromMetadata(response.usageMetadata);
+      dispatch({ type: 'UPDATE', payload: { usage: usage ?? null } });
+      if (usage) {
+        onUsage?.({ tool: Tab.IMAGE_EDITING, model: GEMINI_FLASH_IMAGE_MODEL, usage });
+      }
+
+      const imageData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+      const base64ImageBytes: string | undefined = imageData?.data;
+      if (base64ImageBytes) {
+        const edited: ImageInput = { base64Data: base64ImageBytes, mimeType: imageData?.mimeType || 'image/png' };
+        // Only the masked region is taken from the model's output.
+        const image = mask ? await compositeMaskedEdit(currentStep.image, edited, mask) : edited;
+        // The result becomes the input for the next edit.
+        const step: EditStep = {
+          id: crypto.randomUUID(),
+          parentId: currentStep.id,
+          prompt: state.prompt,
+          image,
+          createdAt: Date.now(),
+        };
+        dispatch({
+          type: 'UPDATE',
+          payload: (prev) => ({ steps: [...prev.steps, step], currentStepId: step.id, redoStepIds: [], prompt: '' }),
+        });
+        saveAsset({
+          kind: 'image',
+          tool: Tab.IMAGE_EDITING,
+          blob: base64ToBlob(image.base64Data, image.mimeType),
+          prompt: state.prompt,
+          model: GEMINI_FLASH_IMAGE_MODEL,
+        }).catch((error) => dispatch({ type: 'SET_ERROR', payload: `Failed to save to the asset library: ${error.message}` }));
+      } else {
+        dispatch({ type: 'SET_ERROR', payload: 'No edited image returned.' });
+      }
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [onUsage, state.prompt, state.maskEnabled, state.mask, state.images, currentStep]);
+
+  // Image 1 is the base of the editing session, so putting a different image first starts a new one.
+  const handleImagesChange = useCallback((images: UploadedImage[]) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => {
+        if (images[0]?.id === prev.images[0]?.id) return { images };
+        const root = images[0] ? createRootStep(images[0].image) : null;
+        return { images, steps: root ? [root] : [], currentStepId: root?.id ?? null, redoStepIds: [] };
+      },
+    });
+  }, []);
+
+  const handleMaskChange = useCallback((mask: ImageInput | null) => {
+    dispatch({ type: 'UPDATE', payload: { mask } });
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (!currentStep?.parentId) return;
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ currentStepId: currentStep.parentId, redoStepIds: [...prev.redoStepIds, currentStep.id] }),
+    });
+  }, [currentStep]);
+
+  const handleRedo = useCallback(() => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => prev.redoStepIds.length === 0 ? {} : {
+        currentStepId: prev.redoStepIds[prev.redoStepIds.length - 1],
+        redoStepIds: prev.redoStepIds.slice(0, -1),
+      },
+    });
+  }, []);
+
+  // Jumping to any step makes it the base for the next edit, which starts a new branch there.
+  const handleSelectStep = useCallback((step: EditStep) => {
+    dispatch({ type: 'UPDATE', payload: { currentStepId: step.id, redoStepIds: [] } });
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'تحرير الصور' : 'Image Editing'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <MultiImageUploader
+        label={language === 'ar'
+          ? 'قم بتحميل الصور للتحرير (يتم تحرير الصورة 1، والبقية مرجعية):'
+          : 'Upload images to edit (image 1 is edited; the others can be referenced in the prompt):'}
+        allowedFileTypes={['image/jpeg', 'image/png', 'image/webp']}
+        images={state.images}
+        onChange={handleImagesChange}
+        language={language}
+        maxImages={MAX_EDIT_IMAGES}
+      />
+
+      <div>
+        <label htmlFor="imageEditPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل وصف التحرير:' : 'Enter edit prompt (e.g., "Add a retro filter" or "Remove the person in the background"): '}
+        </label>
+        <textarea
+          id="imageEditPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={4}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: أضف فلترًا عتيقًا، أو ضع المنتج من الصورة 2 في مشهد الصورة 1.' : 'e.g., Add a retro filter, or Put the product from image 2 into the scene in image 1.'}
+        ></textarea>
+        {currentStep && (
+          <TokenCounter
+            model={GEMINI_FLASH_IMAGE_MODEL}
+            prompt={state.prompt}
+            options={{
+              images: [
+                currentStep.image,
+                ...state.images.slice(1).map(item => item.image),
+                ...(state.maskEnabled && state.mask ? [state.mask] : []),
+              ],
+            }}
+            language={language}
+            className="mt-1"
+          />
+        )}
+      </div>
+
+      <button
+        onClick={handleImageEditing}
+        className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        disabled={state.loading || !currentStep || !state.prompt.trim()}
+      >
+        {language === 'ar' ? 'تحرير الصورة' : 'Edit Image'}
+      </button>
+      {state.usage && <UsageSummary model={GEMINI_FLASH_IMAGE_MODEL} usage={state.usage} language={language} />}
+
+      {currentStep && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={handleUndo}
+                disabled={state.loading || !currentStep.parentId}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+              >
+                {language === 'ar' ? 'تراجع' : 'Undo'}
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={state.loading || state.redoStepIds.length === 0}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+              >
+                {language === 'ar' ? 'إعادة' : 'Redo'}
+              </button>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 ml-auto">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  checked={state.compare}
+                  onChange={(e) => dispatch({ type: 'UPDATE', payload: { compare: e.target.checked } })}
+                  disabled={!parentStep}
+                />
+                <span>{language === 'ar' ? 'مقارنة قبل/بعد' : 'Compare before/after'}</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  checked={state.maskEnabled}
+                  onChange={(e) => dispatch({ type: 'UPDATE', payload: { maskEnabled: e.target.checked } })}
+                  disabled={state.loading}
+                />
+                <span>{language === 'ar' ? 'تحرير منطقة محددة' : 'Edit a region'}</span>
+              </label>
+            </div>
+
+            {state.maskEnabled && (
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                <select
+                  className="block pl-3 pr-10 py-1 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                  value={state.maskTool}
+                  onChange={(e) => dispatch({ type: 'UPDATE', payload: { maskTool: e.target.value as MaskTool } })}
+                >
+                  <option value="brush">{language === 'ar' ? 'فرشاة' : 'Brush'}</option>
+                  <option value="box">{language === 'ar' ? 'مربع' : 'Box'}</option>
+                </select>
+                {state.maskTool === 'brush' && (
+                  <label className="flex items-center space-x-2">
+                    <span>{language === 'ar' ? 'حجم الفرشاة:' : 'Brush size:'}</span>
+                    <input
+                      type="range"
+                      min={8}
+                      max={200}
+                      value={state.brushSize}
+                      onChange={(e) => dispatch({ type: 'UPDATE', payload: { brushSize: Number(e.target.value) } })}
+                    />
+                  </label>
+                )}
+                <span className="text-gray-500">
+                  {state.mask
+                    ? (language === 'ar' ? 'سيتم تحرير المنطقة المحددة فقط.' : 'Only the marked region will be edited.')
+                    : (language === 'ar' ? 'ارسم على الصورة لتحديد المنطقة.' : 'Paint over the image to mark the region.')}
+                </span>
+              </div>
+            )}
+
+            {state.maskEnabled ? (
+              <div className="text-center">
+                <MaskEditor
+                  key={currentStep.id}
+                  image={currentStep.image}
+                  tool={state.maskTool}
+                  brushSize={state.brushSize}
+                  onMaskChange={handleMaskChange}
+                  language={language}
+                  disabled={state.loading}
+                />
+              </div>
+            ) : state.compare && parentStep ? (
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-600 mb-2">{language === 'ar' ? 'قبل' : 'Before'}</h3>
+                  <img src={toDataUrl(parentStep.image)} alt="Before" className="max-w-full h-auto mx-auto rounded-lg shadow-md border border-gray-200" />
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-600 mb-2">{language === 'ar' ? 'بعد' : 'After'}</h3>
+                  <img src={toDataUrl(currentStep.image)} alt="After" className="max-w-full h-auto mx-auto rounded-lg shadow-md border border-gray-200" />
+                </div>
+              </div>
+            ) : (
+              <div className="text-center">
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                  {currentStep.parentId
+                    ? (language === 'ar' ? 'الصورة المحررة:' : 'Edited Image:')
+                    : (language === 'ar' ? 'الصورة الأصلية:' : 'Original Image:')}
+                </h3>
+                <img src={toDataUrl(currentStep.image)} alt={currentStep.parentId ? 'Edited' : 'Original'} className="max-w-full h-auto mx-auto rounded-lg shadow-md border border-gray-200" />
+              </div>
+            )}
+            {currentStep.prompt && <p className="text-sm text-gray-600 text-center italic">{currentStep.prompt}</p>}
+          </div>
+
+          <EditTimeline
+            steps={state.steps}
+            currentStepId={state.currentStepId}
+            onSelect={handleSelectStep}
+            language={language}
+            disabled={state.loading}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageEditingTool;
@@ -0,0 +1,250 @@
+import React, { useReducer, useCallback } from 'react';
+import { PersonGeneration } from '@google/genai';
+import { getGeminiClient, handleApiError } from '../../services/geminiService';
+import { saveAsset, base64ToBlob } from '../../services/assetService';
+import { downloadBlob } from '../../services/exportService';
+import { IMAGEN_MODEL, ASPECT_RATIOS, MAX_IMAGE_VARIANTS, PERSON_GENERATION_OPTIONS } from '../../constants';
+import { AspectRatio, PromptTemplate, Tab, ToolProps } from '../../types';
+import { settingsFromState, settingsToState } from '../../services/templateService';
+import { imageGenerationReducer, initialImageGenerationState, ImageGenerationState } from '../../stores/imageGenerationStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import TemplateLibrary from '../TemplateLibrary';
+
+const VARIANT_COUNTS = Array.from({ length: MAX_IMAGE_VARIANTS }, (_, i) => i + 1);
+const TEMPLATE_SETTINGS: (keyof ImageGenerationState & string)[] = ['negativePrompt', 'aspectRatio', 'numberOfImages', 'personGeneration'];
+
+const ImageGenerationTool: React.FC<ToolProps> = ({ language, onSendImage, onUsage }) => {
+  const [state, dispatch] = useReducer(imageGenerationReducer, initialImageGenerationState);
+
+  const handleImageGeneration = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { generatedImages: [], favoriteIndex: null } });
+
+    // The Gemini API rejects `negativePrompt`, so exclusions are written into the prompt instead.
+    const negativePrompt = state.negativePrompt.trim();
+    const prompt = negativePrompt ? `${state.prompt.trim()}\n\nAvoid: ${negativePrompt}` : state.prompt;
+
+    try {
+      const ai = getGeminiClient();
+      const response = await ai.models.generateImages({
+        model: IMAGEN_MODEL,
+        prompt,
+        config: {
+          numberOfImages: state.numberOfImages,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: state.aspectRatio,
+          personGeneration: state.personGeneration,
+        },
+      });
+
+      const images = (response.generatedImages ?? [])
+        .map(generated => generated.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes);
+      if (images.length === 0) {
+        dispatch({ type: 'SET_ERROR', payload: 'No images returned. The prompt may have been filtered.' });
+        return;
+      }
+      dispatch({ type: 'UPDATE', payload: { generatedImages: images, favoriteIndex: images.length === 1 ? 0 : null } });
+      onUsage?.({ tool: Tab.IMAGE_GENERATION, model: IMAGEN_MODEL, images: images.length });
+      for (const base64ImageBytes of images) {
+        saveAsset({
+          kind: 'image',
+          tool: Tab.IMAGE_GENERATION,
+          blob: base64ToBlob(base64ImageBytes, 'image/jpeg'),
+          prompt,
+          model: IMAGEN_MODEL,
+          aspectRatio: state.aspectRatio,
+        }).catch((error) => dispatch({ type: 'SET_ERROR', payload: `Failed to save to the asset library: ${error.message}` }));
+      }
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.prompt, state.negativePrompt, state.numberOfImages, state.personGeneration, state.aspectRatio, onUsage]);
+
+  const favoriteImage = state.favoriteIndex !== null ? state.generatedImages[state.favoriteIndex] : undefined;
+
+  const handleDownloadFavorite = useCallback(() => {
+    if (favoriteImage) downloadBlob(base64ToBlob(favoriteImage, 'image/jpeg'), `imagen-${Date.now()}.jpg`);
+  }, [favoriteImage]);
+
+  const handleEditFavorite = useCallback(() => {
+    if (!favoriteImage || !onSendImage) return;
+    const file = new File([base64ToBlob(favoriteImage, 'image/jpeg')], `imagen-${Date.now()}.jpg`, { type: 'image/jpeg' });
+    onSendImage(Tab.IMAGE_EDITING, file, { base64Data: favoriteImage, mimeType: 'image/jpeg' });
+  }, [favoriteImage, onSendImage]);
+
+  const handleApplyTemplate = useCallback((template: PromptTemplate) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ prompt: template.prompt, ...settingsToState(template.settings, prev, TEMPLATE_SETTINGS) }),
+    });
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'توليد الصور' : 'Image Generation'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <TemplateLibrary
+        tool={Tab.IMAGE_GENERATION}
+        getCurrent={() => ({ prompt: state.prompt, settings: settingsFromState(state, TEMPLATE_SETTINGS) })}
+        onApply={handleApplyTemplate}
+        language={language}
+        disabled={state.loading}
+      />
+
+      <div>
+        <label htmlFor="imageGenPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل وصف الصورة:' : 'Enter image description:'}
+        </label>
+        <textarea
+          id="imageGenPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={4}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: قطة رائد فضاء تطفو في الفضاء ببدلة ذهبية...' : 'e.g., An astronaut cat floating in space with a golden suit...'}
+        ></textarea>
+      </div>
+
+      <div>
+        <label htmlFor="imageGenNegativePrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'ما يجب تجنبه (اختياري):' : 'Avoid (optional):'}
+        </label>
+        <input
+          id="imageGenNegativePrompt"
+          type="text"
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          value={state.negativePrompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { negativePrompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: نص، علامة مائية، ضبابية' : 'e.g., text, watermark, blurry'}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {language === 'ar'
+            ? 'لا تدعم Gemini API الوصف السلبي ولا البذرة، لذا يُضاف هذا إلى الوصف كسطر "Avoid: ..."، وتختلف الصور في كل مرة.'
+            : 'The Gemini API supports neither a negative prompt nor a seed, so this is added to the prompt as an "Avoid: ..." line, and each run gives new images.'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="aspectRatioSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'نسبة العرض إلى الارتفاع:' : 'Aspect Ratio:'}
+          </label>
+          <select
+            id="aspectRatioSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.aspectRatio}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { aspectRatio: e.target.value as AspectRatio } })}
+          >
+            {ASPECT_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>{ratio}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="imageCountSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'عدد الصور:' : 'Number of images:'}
+          </label>
+          <select
+            id="imageCountSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.numberOfImages}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { numberOfImages: Number(e.target.value) } })}
+          >
+            {VARIANT_COUNTS.map((count) => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="personGenerationSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'توليد الأشخاص:' : 'Person generation:'}
+          </label>
+          <select
+            id="personGenerationSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.personGeneration}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { personGeneration: e.target.value as PersonGeneration } })}
+          >
+            {PERSON_GENERATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleImageGeneration}
+        className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        disabled={state.loading || !state.prompt.trim()}
+      >
+        {language === 'ar' ? 'توليد الصورة' : 'Generate Image'}
+      </button>
+
+      {state.generatedImages.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-xl font-semibold text-gray-800 mb-2">
+            {language === 'ar' ? 'الصور المولدة:' : 'Generated Images:'}
+          </h3>
+          {state.generatedImages.length > 1 && (
+            <p className="text-sm text-gray-500 mb-2">
+              {language === 'ar' ? 'انقر على صورة لاختيارها كمفضلة.' : 'Click an image to pick it as your favorite.'}
+            </p>
+          )}
+          <div className={`grid gap-4 ${state.generatedImages.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+            {state.generatedImages.map((base64ImageBytes, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => dispatch({ type: 'UPDATE', payload: { favoriteIndex: index } })}
+                className={`relative rounded-lg overflow-hidden border-4 focus:outline-none ${state.favoriteIndex === index ? 'border-blue-500' : 'border-transparent hover:border-gray-300'}`}
+                aria-pressed={state.favoriteIndex === index}
+              >
+                <img src={`data:image/jpeg;base64,${base64ImageBytes}`} alt={`Variant ${index + 1}`} className="w-full h-auto shadow-md" />
+                {state.favoriteIndex === index && (
+                  <span className="absolute top-2 left-2 bg-blue-600 text-white text-xs font-semibold px-2 py-1 rounded">
+                    {language === 'ar' ? '★ المفضلة' : '★ Favorite'}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+          {favoriteImage && (
+            <div className="flex flex-wrap gap-2 mt-4 justify-center">
+              <button
+                onClick={handleDownloadFavorite}
+                className="px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'تنزيل المفضلة' : 'Download Favorite'}
+              </button>
+              {onSendImage && (
+                <button
+                  onClick={handleEditFavorite}
+                  className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  {language === 'ar' ? 'تحرير المفضلة' : 'Edit Favorite'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageGenerationTool;
@@ -0,0 +1,583 @@
+import React, { useReducer, useCallback, useEffect, useRef, useState } from 'react';
+import { GoogleGenAI, Modality, LiveServerMessage, LiveConnectConfig, Session, Tool } from '@google/genai';
+import { createPcmBlob, decode, getGeminiClient } from '../../services/geminiService';
+import { PcmCapture, PcmPlayer, SessionRecorder, createPcmPlayer, createSessionRecorder, startPcmCapture } from '../../services/audioService';
+import { downloadBlob, liveTurnsToJson, liveTurnsToMarkdown, liveTurnsToSrt } from '../../services/exportService';
+import { startFrameCapture } from '../../services/videoFrameService';
+import { loadPlaygroundFunctions, savePlaygroundFunctions, toFunctionTool, executeFunctionCall } from '../../services/functionPlaygroundService';
+import { GEMINI_LIVE_AUDIO_MODEL, LIVE_AUDIO_CHUNK_MS, LIVE_FRAME_RATE, LIVE_FUNCTIONS_STORAGE_KEY, LIVE_INPUT_SAMPLE_RATE, LIVE_JPEG_QUALITY, LIVE_OUTPUT_SAMPLE_RATE, LIVE_RESPONSE_LANGUAGES, LIVE_MAX_BUFFERED_AUDIO_MS, LIVE_RECONNECT_ATTEMPTS, LIVE_RECONNECT_BASE_DELAY_MS, LIVE_RECONNECT_MAX_DELAY_MS } from '../../constants';
+import { LiveConnectionState, LiveSessionSettings, LiveSpeaker, LiveTurn, LiveVideoSource, ToolProps } from '../../types';
+import { liveChatReducer, initialLiveChatState } from '../../stores/liveChatStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import TranscriptionDisplay from '../TranscriptionDisplay';
+import LiveSettingsPanel from '../LiveSettingsPanel';
+
+type TranscriptFormat = 'md' | 'json' | 'srt';
+
+const NON_RETRYABLE_CLOSE_CODES = [1007, 1008]; // Invalid request or policy violation, e.g. a bad key or config
+const CONNECTION_STATUS: Record<LiveConnectionState, { label: string; labelAr: string; dot: string }> = {
+  idle: { label: 'Not connected', labelAr: 'غير متصل', dot: 'bg-gray-400' },
+  connecting: { label: 'Connecting…', labelAr: 'جارٍ الاتصال…', dot: 'bg-yellow-400 animate-pulse' },
+  live: { label: 'Live', labelAr: 'مباشر', dot: 'bg-green-500' },
+  reconnecting: { label: 'Reconnecting…', labelAr: 'جارٍ إعادة الاتصال…', dot: 'bg-orange-500 animate-pulse' },
+  failed: { label: 'Connection failed', labelAr: 'فشل الاتصال', dot: 'bg-red-500' },
+};
+const MAX_BUFFERED_CHUNKS = Math.ceil(LIVE_MAX_BUFFERED_AUDIO_MS / LIVE_AUDIO_CHUNK_MS);
+
+// Adds a transcription fragment to the turn in progress, starting one if needed.
+function appendToTurn(turn: LiveTurn | null, speaker: LiveSpeaker, text: string, atMs: number): LiveTurn {
+  return turn
+    ? { ...turn, text: turn.text + text, endMs: atMs }
+    : { speaker, text, startMs: atMs, endMs: atMs, interrupted: false };
+}
+
+// Turns in progress that have text, in the order they started.
+function finishTurns(...turns: (LiveTurn | null)[]): LiveTurn[] {
+  return turns
+    .filter((turn): turn is LiveTurn => !!turn && !!turn.text.trim())
+    .sort((a, b) => a.startMs - b.startMs);
+}
+
+// Native audio models choose the spoken language themselves, so a fixed response language
+// is asked for in the system instruction rather than through the speech config.
+// Sliding-window compression keeps long sessions going past the context window; the
+// resumption handle, when given, continues an earlier session.
+function toLiveConfig(settings: LiveSessionSettings, resumptionHandle: string | null): LiveConnectConfig {
+  const responseLanguage = LIVE_RESPONSE_LANGUAGES.find(option => option.value && option.value === settings.responseLanguage);
+  const systemInstruction = [settings.systemInstruction.trim(), responseLanguage ? `Always respond in ${responseLanguage.label}.` : '']
+    .filter(Boolean)
+    .join('\n\n');
+  const tools: Tool[] = [];
+  if (settings.googleSearch) tools.push({ googleSearch: {} });
+  if (settings.functionMode && settings.functions.length > 0) tools.push(toFunctionTool(settings.functions));
+  return {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } },
+    },
+    systemInstruction: systemInstruction || undefined,
+    tools: tools.length > 0 ? tools : undefined,
+    sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+    contextWindowCompression: { slidingWindow: {} },
+    realtimeInputConfig: settings.pushToTalk ? { automaticActivityDetection: { disabled: true } } : undefined,
+    inputAudioTranscription: {}, // Enable transcription for user input audio.
+    outputAudioTranscription: {}, // Enable transcription for model output audio.
+  };
+}
+
+const LiveChatTool: React.FC<ToolProps> = ({ language }) => {
+  const [state, dispatch] = useReducer(
+    liveChatReducer,
+    initialLiveChatState,
+    (initial) => ({ ...initial, settings: { ...initial.settings, functions: loadPlaygroundFunctions(LIVE_FUNCTIONS_STORAGE_KEY) } }),
+  );
+  const [connectedSettings, setConnectedSettings] = useState<LiveSessionSettings | null>(null); // Settings of the open session
+  const liveSessionPromise = useRef<Promise<ReturnType<GoogleGenAI['live']['connect']>> | null>(null);
+  const micStream = useRef<MediaStream | null>(null);
+  const capture = useRef<PcmCapture | null>(null);
+  const player = useRef<PcmPlayer | null>(null);
+  const recorder = useRef<SessionRecorder | null>(null);
+  const sessionStart = useRef<number>(0);
+  const videoStream = useRef<MediaStream | null>(null);
+  const stopFrames = useRef<(() => void) | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const pushToTalk = useRef<boolean>(false); // Whether the open session uses push-to-talk
+  const talking = useRef<boolean>(false);
+  const sessionOpen = useRef<boolean>(false);
+  const hasOpened = useRef<boolean>(false); // Reconnecting only makes sense once a session has worked
+  const reconnectAttempt = useRef<number>(0);
+  const reconnectTimer = useRef<number | null>(null);
+  const resumptionHandle = useRef<string | null>(null);
+  const bufferedAudio = useRef<Int16Array[]>([]);
+
+  useEffect(() => {
+    savePlaygroundFunctions(state.settings.functions, LIVE_FUNCTIONS_STORAGE_KEY);
+  }, [state.settings.functions]);
+
+  // Sends realtime input once the current session resolves. A failed or closed session is
+  // handled by the connection callbacks, so a send that fails with it is only logged.
+  const sendToSession = useCallback((send: (session: Session) => void) => {
+    liveSessionPromise.current?.then(send).catch((error) => console.error('Failed to send to the live session:', error));
+  }, []);
+
+  const stopVideo = useCallback(() => {
+    stopFrames.current?.();
+    videoStream.current?.getTracks().forEach(track => track.stop());
+    stopFrames.current = null;
+    videoStream.current = null;
+    if (previewRef.current) previewRef.current.srcObject = null;
+  }, []);
+
+  // Starts the camera or a screen share, shows it in the preview and streams its frames to the session.
+  const startVideo = useCallback(async (source: LiveVideoSource) => {
+    stopVideo();
+    if (source === 'none' || !previewRef.current) return;
+    const stream = source === 'camera'
+      ? await navigator.mediaDevices.getUserMedia({ video: true })
+      : await navigator.mediaDevices.getDisplayMedia({ video: true });
+    videoStream.current = stream;
+    // Sharing can also be ended from the browser's own controls.
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (videoStream.current !== stream) return;
+      stopVideo();
+      dispatch({ type: 'UPDATE', payload: { videoSource: 'none' } });
+    });
+    const preview = previewRef.current;
+    preview.srcObject = stream;
+    await preview.play();
+    stopFrames.current = startFrameCapture(preview, LIVE_FRAME_RATE, (frame) => {
+      if (!sessionOpen.current) return; // Stale frames are not worth replaying after a reconnect
+      sendToSession((session) => {
+        session.sendRealtimeInput({ media: { data: frame.base64Data, mimeType: frame.mimeType } });
+      });
+    }, LIVE_JPEG_QUALITY);
+  }, [stopVideo, sendToSession]);
+
+  const releaseMedia = useCallback(() => {
+    stopVideo();
+    capture.current?.stop();
+    player.current?.close();
+    micStream.current?.getTracks().forEach(track => track.stop());
+    capture.current = null;
+    player.current = null;
+    micStream.current = null;
+  }, [stopVideo]);
+
+  // Ends the session, whether we closed it or it could not be kept alive, keeping whatever was said.
+  const endSession = useCallback((finalState: LiveConnectionState = 'idle') => {
+    if (reconnectTimer.current !== null) clearTimeout(reconnectTimer.current);
+    reconnectTimer.current = null;
+    liveSessionPromise.current = null;
+    sessionOpen.current = false;
+    bufferedAudio.current = [];
+    resumptionHandle.current = null;
+    talking.current = false;
+    releaseMedia();
+    setConnectedSettings(null);
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        isActive: false,
+        connectionState: finalState,
+        isTalking: false,
+        turns: [...prev.turns, ...finishTurns(prev.pendingInput, prev.pendingOutput)],
+        pendingInput: null,
+        pendingOutput: null,
+      }),
+    });
+    dispatch({ type: 'SET_LOADING', payload: false });
+  }, [releaseMedia]);
+
+  // Opens a session with the current settings. Microphone, video and playback keep running
+  // across sessions, so reconnecting only swaps the session they feed. With `resume`, the
+  // last resumption handle from the server carries the conversation over.
+  const connectSession = useCallback((resume = false) => {
+    const settings = state.settings;
+    const config = toLiveConfig(settings, resume ? resumptionHandle.current : null); // Throws on invalid function declarations
+    const ai = getGeminiClient();
+    let dropped = false;
+    let lastError = '';
+
+    // The connection was lost: retry with backoff unless it never worked or cannot succeed.
+    const handleDrop = (reason: string, retryable: boolean) => {
+      if (dropped || !isCurrent()) return;
+      dropped = true;
+      sessionOpen.current = false;
+      if (!retryable || !hasOpened.current || reconnectAttempt.current >= LIVE_RECONNECT_ATTEMPTS) {
+        dispatch({ type: 'SET_ERROR', payload: `Live session lost: ${reason}` });
+        endSession('failed');
+        return;
+      }
+      const delay = Math.min(LIVE_RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempt.current, LIVE_RECONNECT_MAX_DELAY_MS);
+      reconnectAttempt.current += 1;
+      dispatch({
+        type: 'UPDATE',
+        payload: (prev) => ({
+          connectionState: 'reconnecting',
+          turns: [...prev.turns, ...finishTurns(prev.pendingInput, prev.pendingOutput)],
+          pendingInput: null,
+          pendingOutput: null,
+        }),
+      });
+      reconnectTimer.current = window.setTimeout(() => {
+        reconnectTimer.current = null;
+        connectSession(true);
+      }, delay);
+    };
+
+    const sessionPromise = ai.live.connect({
+      model: GEMINI_LIVE_AUDIO_MODEL,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log('Live session opened.');
+          sessionOpen.current = true;
+          hasOpened.current = true;
+          reconnectAttempt.current = 0;
+          dispatch({ type: 'UPDATE', payload: { isActive: true, connectionState: 'live' } });
+          dispatch({ type: 'SET_LOADING', payload: false });
+          // Replay what the microphone picked up while there was no open session.
+          const buffered = bufferedAudio.current;
+          bufferedAudio.current = [];
+          sessionPromise.then((session) => {
+            buffered.forEach(pcm => session.sendRealtimeInput({ media: createPcmBlob(pcm, LIVE_INPUT_SAMPLE_RATE) }));
+          }).catch((error) => console.error('Failed to replay buffered audio:', error));
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          const content = message.serverContent;
+          const atMs = Date.now() - sessionStart.current;
+
+          if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+            resumptionHandle.current = message.sessionResumptionUpdate.newHandle;
+          }
+          // The server is about to close this connection; move to a resumed one before it does.
+          if (message.goAway) {
+            connectSession(true);
+            sessionPromise.then(session => session.close()).catch(console.error);
+            return;
+          }
+
+          // Transcription handling. Updaters read the latest turns, never values captured by this callback.
+          const inputText = content?.inputTranscription?.text;
+          if (inputText) {
+            dispatch({ type: 'UPDATE', payload: (prev) => ({ pendingInput: appendToTurn(prev.pendingInput, 'user', inputText, atMs) }) });
+          }
+          const outputText = content?.outputTranscription?.text;
+          if (outputText) {
+            dispatch({ type: 'UPDATE', payload: (prev) => ({ pendingOutput: appendToTurn(prev.pendingOutput, 'model', outputText, atMs) }) });
+          }
+
+          // Audio output handling
+          const base64EncodedAudioString = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (base64EncodedAudioString) {
+            const pcm = decode(base64EncodedAudioString);
+            player.current?.play(pcm);
+            recorder.current?.addOutput(new Int16Array(pcm.buffer, 0, pcm.byteLength >> 1), atMs);
+          }
+
+          // Interruption handling: the reply so far becomes an interrupted turn.
+          if (content?.interrupted) {
+            player.current?.clear();
+            recorder.current?.interruptOutput(atMs);
+            dispatch({
+              type: 'UPDATE',
+              payload: (prev) => ({
+                turns: [...prev.turns, ...finishTurns(prev.pendingOutput && { ...prev.pendingOutput, interrupted: true })],
+                pendingOutput: null,
+              }),
+            });
+          }
+          if (content?.turnComplete) {
+            dispatch({
+              type: 'UPDATE',
+              payload: (prev) => ({
+                turns: [...prev.turns, ...finishTurns(prev.pendingInput, prev.pendingOutput)],
+                pendingInput: null,
+                pendingOutput: null,
+              }),
+            });
+          }
+
+          // Function calls from the session's tools; the model waits for every response.
+          const calls = message.toolCall?.functionCalls;
+          if (calls?.length) {
+            const results = await Promise.all(calls.map(call => executeFunctionCall(call, settings.functions)));
+            if (!isCurrent()) return;
+            sendToSession(session => session.sendToolResponse({
+              functionResponses: calls.map((call, index) => ({
+                id: call.id,
+                name: call.name,
+                response: results[index].error !== undefined ? { error: results[index].error } : { result: results[index].response },
+              })),
+            }));
+          }
+        },
+        onerror: (e: Event) => {
+          // The socket closes right after an error; onclose decides whether to reconnect.
+          lastError = (e as ErrorEvent).message ?? '';
+          console.error('Live session error:', lastError);
+        },
+        onclose: (e: CloseEvent) => {
+          console.log('Live session closed:', e.code, e.reason);
+          // Sessions replaced by a reconnect, or closed by the user, close quietly.
+          handleDrop(e.reason || lastError || `connection closed (code ${e.code})`, !NON_RETRYABLE_CLOSE_CODES.includes(e.code));
+        },
+      },
+      config,
+    });
+    const isCurrent = () => liveSessionPromise.current === sessionPromise;
+    liveSessionPromise.current = sessionPromise;
+    sessionOpen.current = false; // Microphone audio is buffered until this session opens
+    pushToTalk.current = settings.pushToTalk;
+    talking.current = false;
+    setConnectedSettings(settings);
+    sessionPromise.catch((error: Error) => handleDrop(error.message, true));
+  }, [state.settings, endSession, sendToSession]);
+
+  // Live Chat (Gemini 2.5 Native Audio)
+  const setupLiveChat = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { turns: [], pendingInput: null, pendingOutput: null, connectionState: 'connecting' } });
+
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      dispatch({ type: 'SET_ERROR', payload: 'Microphone access is not supported in this browser.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      dispatch({ type: 'UPDATE', payload: { connectionState: 'failed' } });
+      return;
+    }
+
+    try {
+      hasOpened.current = false;
+      reconnectAttempt.current = 0;
+      resumptionHandle.current = null;
+      bufferedAudio.current = [];
+      micStream.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      player.current = await createPcmPlayer(LIVE_OUTPUT_SAMPLE_RATE);
+      const sessionRecorder = createSessionRecorder(LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE);
+      recorder.current = sessionRecorder;
+      sessionStart.current = Date.now(); // Turn times and the recording share a timeline starting with the microphone
+      dispatch({ type: 'UPDATE', payload: { sessionStartedAt: sessionStart.current } });
+      // Stream audio from the microphone to the model, buffering it while no session is open.
+      capture.current = await startPcmCapture(micStream.current, LIVE_INPUT_SAMPLE_RATE, LIVE_AUDIO_CHUNK_MS, (pcm) => {
+        sessionRecorder.addInput(pcm);
+        if (pushToTalk.current && !talking.current) return; // With push-to-talk, audio is only sent while the button is held
+        if (!sessionOpen.current) {
+          bufferedAudio.current.push(pcm);
+          bufferedAudio.current.splice(0, bufferedAudio.current.length - MAX_BUFFERED_CHUNKS); // Keep only the most recent audio
+          return;
+        }
+        sendToSession((session) => { // CRITICAL: Solely rely on sessionPromise resolves
+          session.sendRealtimeInput({ media: createPcmBlob(pcm, LIVE_INPUT_SAMPLE_RATE) });
+        });
+      });
+      if (state.videoSource !== 'none') {
+        // Without video the session still works as an audio chat.
+        await startVideo(state.videoSource).catch((error: Error) => {
+          dispatch({ type: 'SET_ERROR', payload: `Failed to start video input: ${error.message}` });
+          dispatch({ type: 'UPDATE', payload: { videoSource: 'none' } });
+        });
+      }
+      connectSession();
+    } catch (err) {
+      const error = err as Error;
+      console.error('Failed to set up live chat:', error);
+      releaseMedia();
+      dispatch({ type: 'SET_ERROR', payload: `Failed to access microphone or set up live chat: ${error.message}` });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      dispatch({ type: 'UPDATE', payload: { isActive: false, connectionState: 'failed' } });
+    }
+  }, [state.videoSource, startVideo, releaseMedia, connectSession, sendToSession]);
+
+  const stopLiveChat = useCallback(() => {
+    liveSessionPromise.current?.then(session => session.close()).catch(console.error);
+    endSession();
+  }, [endSession]);
+
+  // Applies changed settings by opening a new session and then closing the old one. The
+  // transcript and recording carry on, but the model starts without the earlier context,
+  // so the UI offers this as a new session rather than a reconnect.
+  const startNewSession = useCallback(() => {
+    const previous = liveSessionPromise.current;
+    dispatch({ type: 'SET_ERROR', payload: null });
+    if (reconnectTimer.current !== null) clearTimeout(reconnectTimer.current);
+    reconnectTimer.current = null;
+    reconnectAttempt.current = 0;
+    resumptionHandle.current = null; // The new session starts fresh; don't resume the old one on a later drop
+    try {
+      connectSession();
+    } catch (err) {
+      dispatch({ type: 'SET_ERROR', payload: `Failed to apply the settings: ${(err as Error).message}` });
+      return;
+    }
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        connectionState: 'connecting',
+        isTalking: false,
+        turns: [...prev.turns, ...finishTurns(prev.pendingInput, prev.pendingOutput)],
+        pendingInput: null,
+        pendingOutput: null,
+      }),
+    });
+    player.current?.clear();
+    previous?.then(session => session.close()).catch(console.error);
+  }, [connectSession]);
+
+  // Push-to-talk: holding the button marks the user's turn; releasing it lets the model answer.
+  const startTalking = useCallback(() => {
+    if (!pushToTalk.current || talking.current || !liveSessionPromise.current) return;
+    talking.current = true;
+    sendToSession(session => session.sendRealtimeInput({ activityStart: {} }));
+    dispatch({ type: 'UPDATE', payload: { isTalking: true } });
+  }, [sendToSession]);
+
+  const stopTalking = useCallback(() => {
+    if (!talking.current) return;
+    talking.current = false;
+    sendToSession(session => session.sendRealtimeInput({ activityEnd: {} }));
+    dispatch({ type: 'UPDATE', payload: { isTalking: false } });
+  }, [sendToSession]);
+
+  const settingsChanged = state.isActive && connectedSettings !== null && JSON.stringify(connectedSettings) !== JSON.stringify(state.settings);
+  const baseName = `live-chat-${new Date(state.sessionStartedAt ?? Date.now()).toISOString().replace(/[:.]/g, '-')}`;
+
+  const handleVideoSourceChange = useCallback(async (source: LiveVideoSource) => {
+    dispatch({ type: 'UPDATE', payload: { videoSource: source } });
+    if (!state.isActive) return; // Applied when the session starts
+    try {
+      await startVideo(source);
+    } catch (err) {
+      dispatch({ type: 'SET_ERROR', payload: `Failed to start video input: ${(err as Error).message}` });
+      dispatch({ type: 'UPDATE', payload: { videoSource: 'none' } });
+    }
+  }, [state.isActive, startVideo]);
+
+  const exportTranscript = useCallback((format: TranscriptFormat) => {
+    if (format === 'md') {
+      downloadBlob(new Blob([liveTurnsToMarkdown(state.turns, state.sessionStartedAt)], { type: 'text/markdown' }), `${baseName}.md`);
+    } else if (format === 'json') {
+      downloadBlob(new Blob([liveTurnsToJson(state.turns, state.sessionStartedAt)], { type: 'application/json' }), `${baseName}.json`);
+    } else {
+      downloadBlob(new Blob([liveTurnsToSrt(state.turns)], { type: 'application/x-subrip' }), `${baseName}.srt`);
+    }
+  }, [state.turns, state.sessionStartedAt, baseName]);
+
+  // Microphone and model audio mixed on the same timeline as the transcript.
+  const downloadRecording = useCallback(() => {
+    if (recorder.current) downloadBlob(recorder.current.toWav(), `${baseName}.wav`);
+  }, [baseName]);
+
+  const handleClear = useCallback(() => {
+    if (!state.isActive) recorder.current = null;
+    dispatch({ type: 'CLEAR' });
+  }, [state.isActive]);
+
+  return (
+    <div className="space-y-6 flex flex-col h-full">
+      <ToolHeader
+        title={language === 'ar' ? 'المحادثة المباشرة (صوت)' : 'Live Chat (Audio)'}
+        language={language}
+        onClear={handleClear}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <LiveSettingsPanel
+        settings={state.settings}
+        onChange={(changes) => dispatch({ type: 'UPDATE', payload: (prev) => ({ settings: { ...prev.settings, ...changes } }) })}
+        language={language}
+        disabled={state.loading}
+      />
+
+      {settingsChanged && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+          <span>
+            {language === 'ar'
+              ? 'تغيّرت الإعدادات. ابدأ جلسة جديدة لتطبيقها؛ يبقى النص المكتوب ظاهراً، لكن النموذج لن يتذكر المحادثة السابقة.'
+              : 'Settings changed. Start a new session to apply them; the transcript stays on screen, but the model won\'t remember the earlier conversation.'}
+          </span>
+          <button
+            onClick={startNewSession}
+            disabled={state.loading}
+            className="px-3 py-1 rounded-md text-sm font-medium bg-yellow-600 text-white hover:bg-yellow-700 disabled:opacity-50"
+          >
+            {language === 'ar' ? 'بدء جلسة جديدة' : 'Start new session'}
+          </button>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="liveVideoSelect" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'إدخال الفيديو:' : 'Video input:'}
+        </label>
+        <select
+          id="liveVideoSelect"
+          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.videoSource}
+          onChange={(e) => handleVideoSourceChange(e.target.value as LiveVideoSource)}
+          disabled={state.loading}
+        >
+          <option value="none">{language === 'ar' ? 'بدون (صوت فقط)' : 'None (audio only)'}</option>
+          <option value="camera">{language === 'ar' ? 'الكاميرا' : 'Camera'}</option>
+          <option value="screen">{language === 'ar' ? 'مشاركة الشاشة' : 'Screen share'}</option>
+        </select>
+      </div>
+
+      <div className={state.isActive && state.videoSource !== 'none' ? 'space-y-1' : 'hidden'}>
+        <p className="text-sm text-gray-600">
+          {language === 'ar' ? `ما يراه النموذج (${LIVE_FRAME_RATE} إطار/ثانية):` : `What the model sees (${LIVE_FRAME_RATE} frame/s):`}
+        </p>
+        <video ref={previewRef} muted playsInline className="w-full max-h-64 rounded-md bg-black object-contain" />
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-gray-700" role="status">
+        <span className={`inline-block h-3 w-3 rounded-full ${CONNECTION_STATUS[state.connectionState].dot}`} />
+        <span>{language === 'ar' ? CONNECTION_STATUS[state.connectionState].labelAr : CONNECTION_STATUS[state.connectionState].label}</span>
+      </div>
+
+      <div className="flex space-x-4">
+        <button
+          onClick={state.isActive ? stopLiveChat : setupLiveChat}
+          className={`flex-1 py-3 px-6 rounded-md text-lg font-semibold transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2
+            ${state.isActive
+              ? 'bg-red-600 hover:bg-red-700 text-white focus:ring-red-500'
+              : 'bg-green-600 hover:bg-green-700 text-white focus:ring-green-500'
+            }`}
+          disabled={state.loading && !state.isActive}
+        >
+          {state.isActive
+            ? (language === 'ar' ? 'إيقاف المحادثة' : 'Stop Live Chat')
+            : (language === 'ar' ? 'بدء المحادثة المباشرة' : 'Start Live Chat')}
+        </button>
+        {state.isActive && connectedSettings?.pushToTalk && (
+          <button
+            onPointerDown={startTalking}
+            onPointerUp={stopTalking}
+            onPointerLeave={stopTalking}
+            className={`flex-1 py-3 px-6 rounded-md text-lg font-semibold transition-colors duration-200 select-none touch-none
+              ${state.isTalking ? 'bg-blue-700 text-white' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
+          >
+            {state.isTalking
+              ? (language === 'ar' ? 'جارٍ الاستماع... اترك للإرسال' : 'Listening… release to send')
+              : (language === 'ar' ? 'اضغط مطولاً للتحدث' : 'Hold to talk')}
+          </button>
+        )}
+      </div>
+
+      <TranscriptionDisplay
+        turns={state.turns}
+        pendingTurns={finishTurns(state.pendingInput, state.pendingOutput)}
+      />
+
+      {!state.isActive && state.turns.length > 0 && (
+        <div className="flex space-x-2">
+          {([['md', 'Markdown'], ['json', 'JSON'], ['srt', 'SRT']] as const).map(([format, label]) => (
+            <button
+              key={format}
+              onClick={() => exportTranscript(format)}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              {language === 'ar' ? `تصدير ${label}` : `Export ${label}`}
+            </button>
+          ))}
+          {recorder.current && (
+            <button
+              onClick={downloadRecording}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              {language === 'ar' ? 'تنزيل التسجيل (WAV)' : 'Download recording (WAV)'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveChatTool;
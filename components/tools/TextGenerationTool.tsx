@@ -0,0 +1,430 @@
+import React, { useReducer, useCallback, useRef } from 'react';
+import { generateContent, generateContentStream, handleApiError, isAbortError, extractThoughtText, clampThinkingBudget } from '../../services/geminiService';
+import { GEMINI_FLASH_MODEL, GEMINI_FLASH_LITE_MODEL, GEMINI_PRO_MODEL, TEXT_MODELS } from '../../constants';
+import { ModelComparisonResult, PromptTemplate, SupportedModels, Tab, TextOutputMode, TokenUsage, ToolProps } from '../../types';
+import { fieldsToSchema, jsonSchemaToSchema, validateAgainstSchema } from '../../services/structuredOutputService';
+import { settingsFromState, settingsToState } from '../../services/templateService';
+import { usageFromMetadata } from '../../services/usageService';
+import { textGenerationReducer, initialTextGenerationState, TextGenerationState } from '../../stores/textGenerationStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import ThinkingBudgetControl from '../ThinkingBudgetControl';
+import SchemaEditor from '../SchemaEditor';
+import JsonResultView from '../JsonResultView';
+import DocumentAttachments from '../DocumentAttachments';
+import TemplateLibrary from '../TemplateLibrary';
+import ModelComparisonView from '../ModelComparisonView';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const TEMPLATE_SETTINGS: (keyof TextGenerationState & string)[] = ['thinkingBudget', 'includeThoughts'];
+
+const TextGenerationTool: React.FC<ToolProps> = ({ language, onUsage }) => {
+  const [state, dispatch] = useReducer(textGenerationReducer, initialTextGenerationState);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleTextGeneration = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { response: '', thoughts: '', usage: null, structuredResult: undefined, validationErrors: [] } });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const config: Parameters<typeof generateContent>[2] = {
+      systemInstruction: state.systemInstruction,
+      documents: state.documents,
+      abortSignal: abortController.signal,
+      thinkingBudget: clampThinkingBudget(state.model, state.thinkingBudget),
+    };
+    config.includeThoughts = state.includeThoughts && config.thinkingBudget !== 0;
+
+    const structured = state.outputMode === 'structured';
+    let schema: ReturnType<typeof fieldsToSchema> | undefined;
+    if (structured) {
+      try {
+        schema = state.schemaEditorMode === 'form'
+          ? fieldsToSchema(state.schemaFields, state.schemaAsList)
+          : jsonSchemaToSchema(state.jsonSchemaText);
+      } catch (error) {
+        dispatch({ type: 'SET_ERROR', payload: (error as Error).message });
+        dispatch({ type: 'SET_LOADING', payload: false });
+        return;
+      }
+      config.responseMimeType = 'application/json';
+      config.responseSchema = schema;
+    }
+
+    let usage: TokenUsage | undefined;
+    try {
+      let thoughts = '';
+      const text = await generateContentStream(state.model, state.prompt, config, (chunk, text) => {
+        thoughts += extractThoughtText(chunk);
+        usage = usageFromMetadata(chunk.usageMetadata) ?? usage;
+        dispatch({ type: 'UPDATE', payload: { response: text, thoughts } });
+      });
+      if (schema) {
+        let result: unknown;
+        try {
+          result = JSON.parse(text);
+        } catch (error) {
+          dispatch({ type: 'SET_ERROR', payload: `The response is not valid JSON: ${(error as Error).message}` });
+          return;
+        }
+        dispatch({ type: 'UPDATE', payload: { structuredResult: result, validationErrors: validateAgainstSchema(result, schema) } });
+      }
+    } catch (error) {
+      // A stopped request keeps whatever text had already streamed in.
+      if (!isAbortError(error, abortController.signal)) {
+        dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+      }
+    } finally {
+      if (usage) {
+        dispatch({ type: 'UPDATE', payload: { usage } });
+        onUsage?.({ tool: Tab.TEXT_GENERATION, model: state.model, usage });
+      }
+      abortControllerRef.current = null;
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [
+    onUsage,
+    state.prompt,
+    state.documents,
+    state.model,
+    state.thinkingBudget,
+    state.includeThoughts,
+    state.systemInstruction,
+    state.outputMode,
+    state.schemaEditorMode,
+    state.schemaFields,
+    state.schemaAsList,
+    state.jsonSchemaText,
+  ]);
+
+  // Sends the same request to every selected model at once; each column fills in as its
+  // stream arrives. Structured output does not apply in compare mode.
+  const handleCompare = useCallback(async () => {
+    const models = state.compareModels;
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({
+      type: 'UPDATE',
+      payload: { winnerModel: null, comparisonResults: models.map(model => ({ model, text: '', status: 'running' as const })) },
+    });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const updateResult = (model: SupportedModels, changes: Partial<ModelComparisonResult>) => dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ comparisonResults: prev.comparisonResults.map(r => (r.model === model ? { ...r, ...changes } : r)) }),
+    });
+
+    await Promise.all(models.map(async (model) => {
+      const startedAt = performance.now();
+      let firstChunkMs: number | undefined;
+      let usage: TokenUsage | undefined;
+      try {
+        await generateContentStream(model, state.prompt, {
+          systemInstruction: state.systemInstruction,
+          documents: state.documents,
+          thinkingBudget: clampThinkingBudget(model, state.thinkingBudget),
+          abortSignal: abortController.signal,
+        }, (chunk, text) => {
+          firstChunkMs ??= performance.now() - startedAt;
+          usage = usageFromMetadata(chunk.usageMetadata) ?? usage;
+          updateResult(model, {
+            text,
+            firstChunkMs,
+            ...(usage && {
+              promptTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+              thoughtsTokens: usage.thoughtsTokens,
+            }),
+          });
+        });
+        updateResult(model, { status: 'done', latencyMs: performance.now() - startedAt });
+        if (usage) onUsage?.({ tool: Tab.TEXT_GENERATION, model, usage });
+      } catch (error) {
+        if (isAbortError(error, abortController.signal)) {
+          updateResult(model, { status: 'stopped' });
+        } else {
+          updateResult(model, { status: 'error', error: handleApiError(error) });
+        }
+      }
+    }));
+
+    abortControllerRef.current = null;
+    dispatch({ type: 'SET_LOADING', payload: false });
+  }, [onUsage, state.prompt, state.compareModels, state.systemInstruction, state.documents, state.thinkingBudget]);
+
+  const toggleCompareModel = useCallback((model: SupportedModels, selected: boolean) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        // Keep the models in menu order so the columns do not move around.
+        compareModels: TEXT_MODELS.map(option => option.value).filter(value => (value === model ? selected : prev.compareModels.includes(value))),
+      }),
+    });
+  }, []);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const handleApplyTemplate = useCallback((template: PromptTemplate) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        prompt: template.prompt,
+        systemInstruction: template.systemInstruction ?? prev.systemInstruction,
+        model: template.model ?? prev.model,
+        ...settingsToState(template.settings, prev, TEMPLATE_SETTINGS),
+      }),
+    });
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'توليد النصوص' : 'Text Generation'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <TemplateLibrary
+        tool={Tab.TEXT_GENERATION}
+        getCurrent={() => ({
+          prompt: state.prompt,
+          systemInstruction: state.systemInstruction,
+          model: state.model,
+          settings: settingsFromState(state, TEMPLATE_SETTINGS),
+        })}
+        onApply={handleApplyTemplate}
+        language={language}
+        disabled={state.loading}
+      />
+
+      <div className="flex items-center">
+        <input
+          id="compareMode"
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          checked={state.compareMode}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { compareMode: e.target.checked } })}
+          disabled={state.loading}
+        />
+        <label htmlFor="compareMode" className={`ml-2 block text-sm font-medium text-gray-700 ${language === 'ar' ? 'mr-2' : ''}`}>
+          {language === 'ar' ? 'مقارنة النماذج جنباً إلى جنب' : 'Compare models side by side'}
+        </label>
+      </div>
+
+      {state.compareMode ? (
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'اختر نموذجين أو ثلاثة:' : 'Choose two or three models:'}
+          </legend>
+          <div className="flex flex-wrap gap-4">
+            {TEXT_MODELS.map((option) => (
+              <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  checked={state.compareModels.includes(option.value)}
+                  onChange={(e) => toggleCompareModel(option.value, e.target.checked)}
+                  disabled={state.loading}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      ) : (
+        <div>
+          <label htmlFor="textModelSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'اختر النموذج:' : 'Select Model:'}
+          </label>
+          <select
+            id="textModelSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.model}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { model: e.target.value as SupportedModels } })}
+          >
+            <option value={GEMINI_FLASH_MODEL}>{language === 'ar' ? 'جيميني 2.5 فلاش (سريع)' : 'Gemini 2.5 Flash (Fast)'}</option>
+            <option value={GEMINI_FLASH_LITE_MODEL}>{language === 'ar' ? 'جيميني 2.5 فلاش لايت (أقل زمن استجابة)' : 'Gemini 2.5 Flash Lite (Low-Latency)'}</option>
+            <option value={GEMINI_PRO_MODEL}>{language === 'ar' ? 'جيميني 2.5 برو (للمهام المعقدة)' : 'Gemini 2.5 Pro (Complex Tasks)'}</option>
+          </select>
+        </div>
+      )}
+
+      <ThinkingBudgetControl
+        model={state.model}
+        budget={state.thinkingBudget}
+        onChange={(thinkingBudget) => dispatch({ type: 'UPDATE', payload: { thinkingBudget } })}
+        language={language}
+        disabled={state.loading}
+      />
+
+      <div className="flex items-center">
+        <input
+          id="includeThoughts"
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          checked={state.includeThoughts}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { includeThoughts: e.target.checked } })}
+        />
+        <label htmlFor="includeThoughts" className={`ml-2 block text-sm font-medium text-gray-700 ${language === 'ar' ? 'mr-2' : ''}`}>
+          {language === 'ar' ? 'عرض ملخصات التفكير' : 'Show thought summaries'}
+        </label>
+      </div>
+
+      {!state.compareMode && (
+        <>
+          <div className="flex space-x-2">
+            {(['text', 'structured'] as TextOutputMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => dispatch({ type: 'UPDATE', payload: { outputMode: mode } })}
+                disabled={state.loading}
+                className={`px-4 py-2 rounded-md text-sm font-medium ${
+                  state.outputMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {mode === 'text'
+                  ? (language === 'ar' ? 'نص حر' : 'Free text')
+                  : (language === 'ar' ? 'مخرجات منظمة (JSON)' : 'Structured output (JSON)')}
+              </button>
+            ))}
+          </div>
+
+          {state.outputMode === 'structured' && (
+            <SchemaEditor
+              mode={state.schemaEditorMode}
+              fields={state.schemaFields}
+              asList={state.schemaAsList}
+              jsonSchemaText={state.jsonSchemaText}
+              onModeChange={(schemaEditorMode) => dispatch({ type: 'UPDATE', payload: { schemaEditorMode } })}
+              onFieldsChange={(schemaFields) => dispatch({ type: 'UPDATE', payload: { schemaFields } })}
+              onAsListChange={(schemaAsList) => dispatch({ type: 'UPDATE', payload: { schemaAsList } })}
+              onJsonSchemaTextChange={(jsonSchemaText) => dispatch({ type: 'UPDATE', payload: { jsonSchemaText } })}
+              language={language}
+              disabled={state.loading}
+            />
+          )}
+        </>
+      )}
+
+      <div>
+        <label htmlFor="systemInstruction" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'تعليمات النظام (اختياري):' : 'System Instruction (Optional):'}
+        </label>
+        <textarea
+          id="systemInstruction"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={2}
+          value={state.systemInstruction}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { systemInstruction: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: أنت مساعد إبداعي...' : 'e.g., You are a creative assistant...'}
+        ></textarea>
+      </div>
+
+      <div>
+        <label htmlFor="textPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل النص:' : 'Enter your text prompt:'}
+        </label>
+        <textarea
+          id="textPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={6}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'أدخل استفسارك هنا، على سبيل المثال: "انشي موقع ومدونه ومتجر مع ربط بالدروبينشبنق مع لوحات الدفع ويعمل بالذكاء الصناعي كامل توليد مقالات ونشر وتوليد منتجات رقميه ونشر وتوليد وربط منتجات دروبشبينق ونشر وتواصل اجتماعي وتسويق وادارة محتوي وتحكم واحصائيات ويفعل نظام ربح اعلانات عمولات قوقل ادسنس وغيرها وقوي وفخم ودرشه ذكاء صناعي ويعمل عربي وانقليزي وقوي وللينافس وعالمي"' : 'Enter your prompt here, e.g., "Write a short story about a futuristic city."' }
+        ></textarea>
+        <DocumentAttachments
+          documents={state.documents}
+          onChange={(documents) => dispatch({ type: 'UPDATE', payload: { documents } })}
+          onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+          language={language}
+          disabled={state.loading}
+          className="mt-2"
+        />
+        {state.compareMode ? (
+          // Each compared model counts and prices the same input differently.
+          TEXT_MODELS.filter(option => state.compareModels.includes(option.value)).map(option => (
+            <TokenCounter
+              key={option.value}
+              model={option.value}
+              prompt={state.prompt}
+              options={{ systemInstruction: state.systemInstruction, documents: state.documents }}
+              label={option.label}
+              language={language}
+              className="mt-1"
+            />
+          ))
+        ) : (
+          <TokenCounter
+            model={state.model}
+            prompt={state.prompt}
+            options={{ systemInstruction: state.systemInstruction, documents: state.documents }}
+            language={language}
+            className="mt-1"
+          />
+        )}
+      </div>
+
+      {state.loading ? (
+        <button
+          onClick={handleStop}
+          className="w-full bg-red-500 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-red-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        >
+          {language === 'ar' ? 'إيقاف' : 'Stop'}
+        </button>
+      ) : (
+        <button
+          onClick={state.compareMode ? handleCompare : handleTextGeneration}
+          disabled={state.compareMode && state.compareModels.length < 2}
+          className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {state.compareMode
+            ? (language === 'ar' ? 'مقارنة' : 'Compare')
+            : (language === 'ar' ? 'توليد النص' : 'Generate Text')}
+        </button>
+      )}
+
+      {state.compareMode && state.comparisonResults.length > 0 && (
+        <div className="mt-6">
+          <ModelComparisonView
+            results={state.comparisonResults}
+            winnerModel={state.winnerModel}
+            onWinnerChange={(winnerModel) => dispatch({ type: 'UPDATE', payload: { winnerModel } })}
+            language={language}
+          />
+        </div>
+      )}
+
+      {!state.compareMode && (state.response || state.thoughts) && (
+        <div className={`mt-6 grid gap-4 ${state.thoughts ? 'lg:grid-cols-3' : ''}`}>
+          <div className={`bg-gray-50 p-4 rounded-md shadow-inner ${state.thoughts ? 'lg:col-span-2' : ''}`}>
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">{language === 'ar' ? 'الاستجابة:' : 'Response:'}</h3>
+            {state.structuredResult !== undefined ? (
+              <JsonResultView value={state.structuredResult} validationErrors={state.validationErrors} language={language} />
+            ) : (
+              <div className={`whitespace-pre-wrap text-gray-700 ${state.outputMode === 'structured' ? 'font-mono text-sm' : ''}`}>{state.response}</div>
+            )}
+            {state.usage && <UsageSummary model={state.model} usage={state.usage} language={language} className="mt-3" />}
+          </div>
+          {state.thoughts && (
+            <details open className="bg-yellow-50 p-4 rounded-md shadow-inner border border-yellow-200">
+              <summary className="text-lg font-semibold text-gray-800 cursor-pointer">{language === 'ar' ? 'الاستدلال' : 'Reasoning'}</summary>
+              <div className="whitespace-pre-wrap text-sm text-gray-700 mt-2">{state.thoughts}</div>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextGenerationTool;
@@ -0,0 +1,247 @@
+import React, { useReducer, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Modality, SpeechConfig } from '@google/genai';
+import { decode, getGeminiClient, handleApiError } from '../../services/geminiService';
+import { saveAsset } from '../../services/assetService';
+import { pcmToWav } from '../../services/audioService';
+import { downloadUrl } from '../../services/exportService';
+import { GEMINI_TTS_MODEL, TTS_SAMPLE_RATE, TTS_SPEAKER_COUNT, VOICE_NAMES } from '../../constants';
+import { PromptTemplate, SpeechMode, Tab, ToolProps } from '../../types';
+import { settingsFromState, settingsToState } from '../../services/templateService';
+import { usageFromMetadata } from '../../services/usageService';
+import { textToSpeechReducer, initialTextToSpeechState, TextToSpeechState } from '../../stores/textToSpeechStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import TemplateLibrary from '../TemplateLibrary';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const TEMPLATE_SETTINGS: (keyof TextToSpeechState & string)[] = ['mode', 'voice'];
+// A name-like label (a single word starting with a letter) before a colon. Lines such as
+// "Note that: ...", times like "10:30" and URLs like "https://..." are not speakers.
+const SPEAKER_LINE_PATTERN = /^\s*(\p{L}[\p{L}\p{N}_.-]{0,29})\s*:(?!\/\/)/gmu;
+
+// Speaker names in order of first appearance, from script lines like "Alice: Hello".
+function extractSpeakers(script: string): string[] {
+  return Array.from(new Set(Array.from(script.matchAll(SPEAKER_LINE_PATTERN), match => match[1])));
+}
+
+const TextToSpeechTool: React.FC<ToolProps> = ({ language, onUsage }) => {
+  const [state, dispatch] = useReducer(textToSpeechReducer, initialTextToSpeechState);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  // Play each newly generated clip; the URL is released once it is replaced or cleared.
+  useEffect(() => {
+    if (!state.audioUrl) return;
+    audioRef.current?.play().catch(e => console.error("Audio playback error:", e));
+    const url = state.audioUrl;
+    return () => URL.revokeObjectURL(url);
+  }, [state.audioUrl]);
+
+  const speakers = useMemo(() => extractSpeakers(state.input), [state.input]);
+  const speakerVoice = (speaker: string, index: number) => state.speakerVoices[speaker] ?? VOICE_NAMES[index % VOICE_NAMES.length].value;
+
+  // Dialogue scripts are introduced by naming the speakers, as the multi-speaker docs recommend.
+  const speechPrompt = state.mode === 'dialogue' && speakers.length === TTS_SPEAKER_COUNT
+    ? `TTS the following conversation between ${speakers.join(' and ')}:\n${state.input}`
+    : state.input;
+
+  const handleTextToSpeech = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { usage: null } });
+
+    if (!state.input.trim()) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please enter text for speech generation.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+    if (state.mode === 'dialogue' && speakers.length !== TTS_SPEAKER_COUNT) {
+      dispatch({ type: 'SET_ERROR', payload: `Dialogue mode needs exactly ${TTS_SPEAKER_COUNT} speakers, written as "Name: line". Found ${speakers.length}.` });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const speechConfig: SpeechConfig = state.mode === 'dialogue'
+      ? {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map((speaker, index) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: speakerVoice(speaker, index) } },
+          })),
+        },
+      }
+      : { voiceConfig: { prebuiltVoiceConfig: { voiceName: state.voice } } };
+
+    try {
+      const ai = getGeminiClient();
+      const response = await ai.models.generateContent({
+        model: GEMINI_TTS_MODEL,
+        contents: [{ parts: [{ text: speechPrompt }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig,
+        },
+      });
+
+      const usage = usageFromMetadata(response.usageMetadata);
+      if (usage) {
+        dispatch({ type: 'UPDATE', payload: { usage } });
+        onUsage?.({ tool: Tab.TEXT_TO_SPEECH, model: GEMINI_TTS_MODEL, usage });
+      }
+
+      const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+      if (audio?.data) {
+        // Raw PCM, e.g. "audio/L16;codec=pcm;rate=24000"; wrapped as WAV so it plays and downloads.
+        const sampleRate = Number(/rate=(\d+)/.exec(audio.mimeType ?? '')?.[1]) || TTS_SAMPLE_RATE;
+        const audioBlob = pcmToWav(decode(audio.data), sampleRate);
+        dispatch({ type: 'UPDATE', payload: { audioUrl: URL.createObjectURL(audioBlob) } });
+        saveAsset({ kind: 'audio', tool: Tab.TEXT_TO_SPEECH, blob: audioBlob, prompt: state.input, model: GEMINI_TTS_MODEL })
+          .catch((error) => dispatch({ type: 'SET_ERROR', payload: `Failed to save to the asset library: ${error.message}` }));
+      } else {
+        dispatch({ type: 'SET_ERROR', payload: 'No audio data received.' });
+      }
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.input, state.mode, state.voice, state.speakerVoices, speakers, speechPrompt, onUsage]);
+
+  const handleApplyTemplate = useCallback((template: PromptTemplate) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({ input: template.prompt, ...settingsToState(template.settings, prev, TEMPLATE_SETTINGS) }),
+    });
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'تحويل النص إلى كلام' : 'Text-to-Speech'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <TemplateLibrary
+        tool={Tab.TEXT_TO_SPEECH}
+        getCurrent={() => ({ prompt: state.input, settings: settingsFromState(state, TEMPLATE_SETTINGS) })}
+        onApply={handleApplyTemplate}
+        language={language}
+        disabled={state.loading}
+      />
+
+      <div>
+        <label htmlFor="ttsModeSelect" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'الوضع:' : 'Mode:'}
+        </label>
+        <select
+          id="ttsModeSelect"
+          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.mode}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { mode: e.target.value as SpeechMode } })}
+          disabled={state.loading}
+        >
+          <option value="single">{language === 'ar' ? 'متحدث واحد' : 'Single speaker'}</option>
+          <option value="dialogue">{language === 'ar' ? `حوار (${TTS_SPEAKER_COUNT} متحدثين)` : `Dialogue (${TTS_SPEAKER_COUNT} speakers)`}</option>
+        </select>
+      </div>
+
+      {state.mode === 'single' ? (
+        <div>
+          <label htmlFor="ttsVoiceSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'اختر الصوت:' : 'Select Voice:'}
+          </label>
+          <select
+            id="ttsVoiceSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.voice}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { voice: e.target.value } })}
+            disabled={state.loading}
+          >
+            {VOICE_NAMES.map((voice) => (
+              <option key={voice.value} value={voice.value}>{voice.label}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {language === 'ar'
+              ? `اكتب النص كسطور مثل "أحمد: مرحباً". يلزم ${TTS_SPEAKER_COUNT} متحدثين بالضبط.`
+              : `Write the script as lines like "Alice: Hello there". Exactly ${TTS_SPEAKER_COUNT} speakers are needed.`}
+          </p>
+          {speakers.length === 0 && (
+            <p className="text-sm text-gray-500 italic">{language === 'ar' ? 'لم يتم العثور على متحدثين بعد.' : 'No speakers found yet.'}</p>
+          )}
+          {speakers.length > TTS_SPEAKER_COUNT && (
+            <p className="text-sm text-red-600">
+              {language === 'ar'
+                ? `تم العثور على ${speakers.length} متحدثين، والحد الأقصى ${TTS_SPEAKER_COUNT}. أزل المتحدثين الإضافيين أو أعد صياغة السطور التي تحتوي على نقطتين.`
+                : `Found ${speakers.length} speakers, but at most ${TTS_SPEAKER_COUNT} are supported. Remove the extra speakers or rephrase lines that contain a colon.`}
+            </p>
+          )}
+          {speakers.map((speaker, index) => (
+            <div key={speaker} className="flex items-center gap-3">
+              <span className={`w-32 truncate text-sm font-medium ${index < TTS_SPEAKER_COUNT ? 'text-gray-700' : 'text-red-600 line-through'}`}>
+                {speaker}
+              </span>
+              <select
+                aria-label={language === 'ar' ? `صوت ${speaker}` : `Voice for ${speaker}`}
+                className="flex-1 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                value={speakerVoice(speaker, index)}
+                onChange={(e) => dispatch({ type: 'UPDATE', payload: (prev) => ({ speakerVoices: { ...prev.speakerVoices, [speaker]: e.target.value } }) })}
+                disabled={state.loading || index >= TTS_SPEAKER_COUNT}
+              >
+                {VOICE_NAMES.map((voice) => (
+                  <option key={voice.value} value={voice.value}>{voice.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="ttsInput" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل النص لتحويله إلى كلام:' : 'Enter text to convert to speech:'}
+        </label>
+        <textarea
+          id="ttsInput"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={6}
+          value={state.input}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { input: e.target.value } })}
+          placeholder={state.mode === 'dialogue'
+            ? (language === 'ar' ? 'أحمد: كيف حالك اليوم؟\nسارة: بخير، شكراً!' : 'Alice: How are you today?\nBob: Great, thanks for asking!')
+            : (language === 'ar' ? 'مثال: مرحباً بك في تطبيق Gemini!' : 'e.g., Hello, welcome to the Gemini app!')}
+        ></textarea>
+        <TokenCounter model={GEMINI_TTS_MODEL} prompt={speechPrompt} language={language} className="mt-1" />
+      </div>
+
+      <button
+        onClick={handleTextToSpeech}
+        className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        disabled={state.loading || !state.input.trim()}
+      >
+        {language === 'ar' ? 'توليد الكلام وتشغيله' : 'Generate and Play Speech'}
+      </button>
+
+      <audio ref={audioRef} src={state.audioUrl ?? undefined} controls className="w-full mt-4"></audio>
+      {state.audioUrl && (
+        <button
+          onClick={() => state.audioUrl && downloadUrl(state.audioUrl, `speech-${Date.now()}.wav`)}
+          className="px-4 py-2 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+        >
+          {language === 'ar' ? 'تنزيل WAV' : 'Download WAV'}
+        </button>
+      )}
+      {state.usage && <UsageSummary model={GEMINI_TTS_MODEL} usage={state.usage} language={language} />}
+    </div>
+  );
+};
+
+export default TextToSpeechTool;
@@ -0,0 +1,409 @@
+import React, { useReducer, useCallback, useEffect, useRef, useState } from 'react';
+import { checkAndSelectVeoApiKey, handleApiError } from '../../services/geminiService';
+import { loadVideoJobs, saveVideoJobs, startVideoJob, pollVideoJob, fetchVideoJobResult } from '../../services/videoJobService';
+import { downloadUrl } from '../../services/exportService';
+import { saveAsset } from '../../services/assetService';
+import { VEO_GENERATE_MODEL, VEO_MODELS, VEO_EXTENSION_SECONDS, MAX_VEO_REFERENCE_IMAGES, VEO_POLL_INTERVAL_MS, VEO_DEFAULT_DURATION_SECONDS, VIDEO_ASPECT_RATIOS, VIDEO_RESOLUTIONS } from '../../constants';
+import { PromptTemplate, SupportedModels, Tab, ToolProps, VideoAspectRatio, VideoGenerationMode, VideoJob, VideoResolution } from '../../types';
+import { settingsFromState, settingsToState } from '../../services/templateService';
+import { videoGenerationReducer, initialVideoGenerationState, VideoGenerationState } from '../../stores/videoGenerationStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import MultiImageUploader from '../MultiImageUploader';
+import VideoJobList from '../VideoJobList';
+import TemplateLibrary from '../TemplateLibrary';
+
+// How many images each mode takes from the uploader.
+const MODE_IMAGE_LIMITS: Record<VideoGenerationMode, number> = {
+  start: 1,
+  reference: MAX_VEO_REFERENCE_IMAGES,
+  firstLast: 2,
+  extend: 0,
+};
+
+const TEMPLATE_SETTINGS: (keyof VideoGenerationState & string)[] = ['aspectRatio', 'resolution'];
+
+const VideoGenerationTool: React.FC<ToolProps> = ({ language, isActive, incomingImage, onUsage }) => {
+  const [state, dispatch] = useReducer(
+    videoGenerationReducer,
+    initialVideoGenerationState,
+    (initial) => ({ ...initial, jobs: loadVideoJobs() }), // Resume jobs from a previous page load
+  );
+  const [now, setNow] = useState<number>(Date.now());
+  const jobsRef = useRef<VideoJob[]>(state.jobs);
+  const fetchingJobIds = useRef<Set<string>>(new Set());
+  const pollInFlight = useRef<boolean>(false);
+  jobsRef.current = state.jobs;
+  const hasRunningJobs = state.jobs.some(job => job.status === 'running');
+  const extendableJobs = state.jobs.filter(job => job.status === 'succeeded' && job.videoUri);
+  // Reference images and extension are only available on the full model.
+  const requiresFullModel = state.mode === 'reference' || state.mode === 'extend';
+
+  // `onlyIfRunning` keeps late poll results from overriding a job the user has already cancelled.
+  const updateJob = useCallback((id: string, changes: Partial<VideoJob>, onlyIfRunning = false) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        jobs: prev.jobs.map(job => (job.id === id && (!onlyIfRunning || job.status === 'running') ? { ...job, ...changes } : job)),
+      }),
+    });
+  }, []);
+
+  useEffect(() => {
+    saveVideoJobs(state.jobs);
+  }, [state.jobs]);
+
+  // Image sent here from another tool: replaces the starting frame, or joins the other input images
+  useEffect(() => {
+    if (incomingImage) {
+      const image = { id: incomingImage.id, file: incomingImage.file, image: incomingImage.image };
+      dispatch({
+        type: 'UPDATE',
+        payload: (prev) => prev.mode === 'extend'
+          ? { mode: 'start', images: [image] }
+          : { images: [...prev.images, image].slice(-MODE_IMAGE_LIMITS[prev.mode]) },
+      });
+    }
+  }, [incomingImage]);
+
+  // Poll running jobs in the background, whichever tab is visible. A slow round is not
+  // overlapped by the next one, so each job finishes (and is billed) once.
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const poll = async () => {
+      if (pollInFlight.current) return;
+      pollInFlight.current = true;
+      try {
+        for (const job of jobsRef.current.filter(j => j.status === 'running')) {
+          try {
+            const changes = await pollVideoJob(job);
+            // The user may have cancelled the job while the request was out.
+            const stillRunning = jobsRef.current.find(j => j.id === job.id)?.status === 'running';
+            updateJob(job.id, changes, true);
+            if (stillRunning && changes.status === 'succeeded') {
+              onUsage?.({ tool: Tab.VIDEO_GENERATION, model: job.model, videoSeconds: job.durationSeconds ?? VEO_DEFAULT_DURATION_SECONDS });
+            }
+          } catch (error) {
+            updateJob(job.id, { error: handleApiError(error) }, true); // Keep polling; the failure may be transient
+          }
+        }
+      } finally {
+        pollInFlight.current = false;
+      }
+    };
+    poll();
+    const interval = setInterval(poll, VEO_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunningJobs, updateJob, onUsage]);
+
+  // Tick the elapsed-time display while jobs are running and the tab is visible.
+  useEffect(() => {
+    if (!hasRunningJobs || !isActive) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningJobs, isActive]);
+
+  // Download results as jobs finish (including jobs that finished while the page was closed).
+  // Failed downloads are not retried automatically, e.g. when the URI expired after a reload.
+  useEffect(() => {
+    for (const job of state.jobs) {
+      if (job.status !== 'succeeded' || job.downloadError || state.videoUrls[job.id] || fetchingJobIds.current.has(job.id)) continue;
+      fetchingJobIds.current.add(job.id);
+      fetchVideoJobResult(job)
+        .then((blob) => {
+          const url = URL.createObjectURL(blob);
+          dispatch({ type: 'UPDATE', payload: (prev) => ({ videoUrls: { ...prev.videoUrls, [job.id]: url } }) });
+          if (!job.savedToLibrary) {
+            saveAsset({ kind: 'video', tool: Tab.VIDEO_GENERATION, blob, prompt: job.prompt, model: job.model, aspectRatio: job.aspectRatio })
+              .then(() => updateJob(job.id, { savedToLibrary: true }))
+              .catch((error) => updateJob(job.id, { error: `Failed to save to the asset library: ${error.message}` }));
+          }
+        })
+        .catch((error) => updateJob(job.id, { downloadError: handleApiError(error) }))
+        .finally(() => fetchingJobIds.current.delete(job.id));
+    }
+  }, [state.jobs, state.videoUrls, updateJob]);
+
+  const handleVideoGeneration = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    const isKeySelected = await checkAndSelectVeoApiKey();
+    if (!isKeySelected) {
+      dispatch({ type: 'SET_ERROR', payload: 'API Key not selected. Please select your API key with billing enabled.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const sourceJob = state.mode === 'extend' ? state.jobs.find(job => job.id === state.extendJobId) ?? null : null;
+    if (state.mode === 'extend' && !sourceJob) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please choose a finished video to extend.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+    if (state.mode === 'firstLast' && state.images.length < 2) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please upload both a first and a last frame.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const images = state.images.map(item => item.image);
+    try {
+      const job = await startVideoJob({
+        model: requiresFullModel ? VEO_GENERATE_MODEL : state.model,
+        prompt: state.prompt,
+        image: state.mode === 'start' || state.mode === 'firstLast' ? images[0] : null,
+        lastFrame: state.mode === 'firstLast' ? images[1] : null,
+        referenceImages: state.mode === 'reference' ? images : undefined,
+        sourceJob,
+        durationSeconds: sourceJob ? state.extendSeconds : undefined,
+        // Extensions keep the source video's framing and are limited to 720p.
+        aspectRatio: sourceJob?.aspectRatio ?? state.aspectRatio,
+        resolution: sourceJob ? '720p' : state.resolution,
+      });
+      setNow(Date.now());
+      dispatch({ type: 'UPDATE', payload: (prev) => ({ jobs: [job, ...prev.jobs] }) });
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.prompt, state.images, state.mode, state.model, state.jobs, state.extendJobId, state.extendSeconds, state.aspectRatio, state.resolution, requiresFullModel]);
+
+  const handleApplyTemplate = useCallback((template: PromptTemplate) => {
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => ({
+        prompt: template.prompt,
+        model: template.model ?? prev.model,
+        ...settingsToState(template.settings, prev, TEMPLATE_SETTINGS),
+      }),
+    });
+  }, []);
+
+  const handleModeChange = useCallback((mode: VideoGenerationMode) => {
+    dispatch({ type: 'UPDATE', payload: (prev) => ({ mode, images: prev.images.slice(0, MODE_IMAGE_LIMITS[mode]) }) });
+  }, []);
+
+  const handleExtendJob = useCallback((job: VideoJob) => {
+    handleModeChange('extend');
+    dispatch({ type: 'UPDATE', payload: { extendJobId: job.id } });
+  }, [handleModeChange]);
+
+  const handleCancelJob = useCallback((job: VideoJob) => {
+    // Veo has no cancel endpoint, so this stops tracking the operation locally.
+    updateJob(job.id, { status: 'cancelled', finishedAt: Date.now() }, true);
+  }, [updateJob]);
+
+  const handleRetryDownload = useCallback((job: VideoJob) => {
+    updateJob(job.id, { downloadError: undefined });
+  }, [updateJob]);
+
+  const handleRemoveJob = useCallback((job: VideoJob) => {
+    const url = state.videoUrls[job.id];
+    if (url) URL.revokeObjectURL(url);
+    dispatch({
+      type: 'UPDATE',
+      payload: (prev) => {
+        const { [job.id]: _removed, ...videoUrls } = prev.videoUrls;
+        return { jobs: prev.jobs.filter(j => j.id !== job.id), videoUrls };
+      },
+    });
+  }, [state.videoUrls]);
+
+  const handleDownloadJob = useCallback((job: VideoJob) => {
+    const url = state.videoUrls[job.id];
+    if (url) downloadUrl(url, `veo-${job.id.slice(0, 8)}.mp4`);
+  }, [state.videoUrls]);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'توليد الفيديو' : 'Video Generation'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <TemplateLibrary
+        tool={Tab.VIDEO_GENERATION}
+        getCurrent={() => ({ prompt: state.prompt, model: state.model, settings: settingsFromState(state, TEMPLATE_SETTINGS) })}
+        onApply={handleApplyTemplate}
+        language={language}
+        disabled={state.loading}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="videoModeSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'الوضع:' : 'Mode:'}
+          </label>
+          <select
+            id="videoModeSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            value={state.mode}
+            onChange={(e) => handleModeChange(e.target.value as VideoGenerationMode)}
+          >
+            <option value="start">{language === 'ar' ? 'نص أو صورة بداية' : 'Text or starting frame'}</option>
+            <option value="reference">
+              {language === 'ar' ? `صور مرجعية (حتى ${MAX_VEO_REFERENCE_IMAGES})` : `Reference images (up to ${MAX_VEO_REFERENCE_IMAGES})`}
+            </option>
+            <option value="firstLast">{language === 'ar' ? 'انتقال بين إطار أول وأخير' : 'Transition between first and last frame'}</option>
+            <option value="extend">{language === 'ar' ? 'تمديد فيديو مولد' : 'Extend a generated video'}</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="veoModelSelect" className="block text-sm font-medium text-gray-700 mb-1">
+            {language === 'ar' ? 'النموذج:' : 'Model:'}
+          </label>
+          <select
+            id="veoModelSelect"
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:opacity-50"
+            value={requiresFullModel ? VEO_GENERATE_MODEL : state.model}
+            onChange={(e) => dispatch({ type: 'UPDATE', payload: { model: e.target.value as SupportedModels } })}
+            disabled={requiresFullModel}
+          >
+            {VEO_MODELS.map((model) => (
+              <option key={model.value} value={model.value}>{model.label}</option>
+            ))}
+          </select>
+          {requiresFullModel && (
+            <p className="text-xs text-gray-500 mt-1">
+              {language === 'ar' ? 'هذا الوضع يتطلب نموذج Veo الكامل.' : 'This mode requires the full Veo model.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {state.mode === 'extend' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="extendJobSelect" className="block text-sm font-medium text-gray-700 mb-1">
+              {language === 'ar' ? 'الفيديو المراد تمديده:' : 'Video to extend:'}
+            </label>
+            <select
+              id="extendJobSelect"
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              value={state.extendJobId ?? ''}
+              onChange={(e) => dispatch({ type: 'UPDATE', payload: { extendJobId: e.target.value || null } })}
+            >
+              <option value="">{language === 'ar' ? 'اختر فيديو...' : 'Choose a video...'}</option>
+              {extendableJobs.map((job) => (
+                <option key={job.id} value={job.id}>
+                  {(job.prompt || (language === 'ar' ? '(بدون وصف)' : '(no prompt)')).slice(0, 60)} · {new Date(job.createdAt).toLocaleTimeString()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="extendSecondsSelect" className="block text-sm font-medium text-gray-700 mb-1">
+              {language === 'ar' ? 'التمديد بمقدار (ثوانٍ):' : 'Extend by (seconds):'}
+            </label>
+            <select
+              id="extendSecondsSelect"
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              value={state.extendSeconds}
+              onChange={(e) => dispatch({ type: 'UPDATE', payload: { extendSeconds: Number(e.target.value) } })}
+            >
+              {VEO_EXTENSION_SECONDS.map((seconds) => (
+                <option key={seconds} value={seconds}>{seconds}</option>
+              ))}
+            </select>
+          </div>
+          {extendableJobs.length === 0 && (
+            <p className="md:col-span-2 text-sm text-gray-500 italic">
+              {language === 'ar' ? 'لا توجد فيديوهات مكتملة لتمديدها بعد.' : 'There are no finished videos to extend yet.'}
+            </p>
+          )}
+        </div>
+      ) : (
+        <MultiImageUploader
+          label={{
+            start: language === 'ar' ? 'صورة بدء اختيارية (سيتم توليد فيديو منها):' : 'Optional starting image (will generate video from this):',
+            reference: language === 'ar' ? 'صور مرجعية للأشخاص أو الأشياء أو الأنماط التي يجب أن تظهر في الفيديو:' : 'Reference images of people, objects or styles to keep in the video:',
+            firstLast: language === 'ar' ? 'الصورة 1 هي الإطار الأول والصورة 2 هي الإطار الأخير:' : 'Image 1 is the first frame and image 2 is the last frame:',
+          }[state.mode]}
+          allowedFileTypes={['image/jpeg', 'image/png', 'image/webp']}
+          images={state.images}
+          onChange={(images) => dispatch({ type: 'UPDATE', payload: { images } })}
+          language={language}
+          maxImages={MODE_IMAGE_LIMITS[state.mode]}
+        />
+      )}
+
+      <div>
+        <label htmlFor="videoGenPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'أدخل وصف الفيديو:' : 'Enter video description:'}
+        </label>
+        <textarea
+          id="videoGenPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={4}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: مدينة مستقبلية تتسابق فيها السيارات الطائرة.' : 'e.g., A futuristic city with flying cars racing.'}
+        ></textarea>
+      </div>
+
+      <div>
+        <label htmlFor="videoAspectRatioSelect" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'نسبة العرض إلى الارتفاع:' : 'Aspect Ratio:'}
+        </label>
+        <select
+          id="videoAspectRatioSelect"
+          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.aspectRatio}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { aspectRatio: e.target.value as VideoAspectRatio } })}
+          disabled={state.mode === 'extend'}
+        >
+          {VIDEO_ASPECT_RATIOS.map((ratio) => (
+            <option key={ratio} value={ratio}>{ratio}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="videoResolutionSelect" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'الدقة:' : 'Resolution:'}
+        </label>
+        <select
+          id="videoResolutionSelect"
+          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.resolution}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { resolution: e.target.value as VideoResolution } })}
+          disabled={state.mode === 'extend'}
+        >
+          {VIDEO_RESOLUTIONS.map((res) => (
+            <option key={res} value={res}>{res}</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={handleVideoGeneration}
+        className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        disabled={state.loading || (state.mode === 'extend' ? !state.extendJobId : !state.prompt.trim() && state.images.length === 0)}
+      >
+        {language === 'ar' ? 'توليد الفيديو' : 'Generate Video'}
+      </button>
+
+      <VideoJobList
+        jobs={state.jobs}
+        videoUrls={state.videoUrls}
+        now={now}
+        onCancel={handleCancelJob}
+        onRemove={handleRemoveJob}
+        onDownload={handleDownloadJob}
+        onRetryDownload={handleRetryDownload}
+        onExtend={handleExtendJob}
+        language={language}
+      />
+    </div>
+  );
+};
+
+export default VideoGenerationTool;
@@ -0,0 +1,295 @@
+import React, { useReducer, useCallback, useEffect, useRef, useState } from 'react';
+import { generateContent, generateContentStream, handleApiError, isAbortError } from '../../services/geminiService';
+import { extractVideoFrames, formatTimestamp, parseVideoChapters } from '../../services/videoFrameService';
+import { downloadBlob, chaptersToWebVtt, chaptersToJson } from '../../services/exportService';
+import { usageFromMetadata } from '../../services/usageService';
+import { GEMINI_PRO_MODEL, FRAME_RATE, MAX_VIDEO_FRAMES, VIDEO_CHAPTERS_SCHEMA, TOKEN_COUNT_DEBOUNCE_MS } from '../../constants';
+import { Tab, TokenUsage, ToolProps, VideoFrame, VideoUnderstandingMode } from '../../types';
+import { videoUnderstandingReducer, initialVideoUnderstandingState } from '../../stores/videoUnderstandingStore';
+import ToolHeader from '../ToolHeader';
+import LoadingSpinner from '../LoadingSpinner';
+import ErrorMessage from '../ErrorMessage';
+import ImageUploader from '../ImageUploader';
+import VideoPlayer from '../VideoPlayer';
+import TokenCounter from '../TokenCounter';
+import UsageSummary from '../UsageSummary';
+
+const VideoUnderstandingTool: React.FC<ToolProps> = ({ language, onUsage }) => {
+  const [state, dispatch] = useReducer(videoUnderstandingReducer, initialVideoUnderstandingState);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [sampledFrames, setSampledFrames] = useState<VideoFrame[]>([]);
+  const playerRef = useRef<HTMLVideoElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Object URL for the chapter-seekable preview
+  useEffect(() => {
+    if (!state.videoFile) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(state.videoFile);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [state.videoFile]);
+
+  // Sample frames ahead of time so the token counter can include them.
+  useEffect(() => {
+    const videoFile = state.videoFile;
+    if (!videoFile) {
+      setSampledFrames([]);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      extractVideoFrames(videoFile, state.frameRate, MAX_VIDEO_FRAMES)
+        .then((frames) => { if (!cancelled) setSampledFrames(frames); })
+        .catch((error) => console.error('Frame sampling failed:', error));
+    }, TOKEN_COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [state.videoFile, state.frameRate]);
+
+  const handleVideoUnderstanding = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'UPDATE', payload: { response: '', chapters: [], usage: null } });
+
+    if (!state.videoFile) {
+      dispatch({ type: 'SET_ERROR', payload: 'Please upload a video to analyze.' });
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let usage: TokenUsage | undefined;
+    try {
+      const frames = await extractVideoFrames(state.videoFile, state.frameRate, MAX_VIDEO_FRAMES);
+      if (abortController.signal.aborted) return; // Stopped while frames were being sampled
+
+      if (state.mode === 'chapters') {
+        const chaptersPrompt = [
+          'Split this video into chapters. Return consecutive segments that cover the whole video, each with start and end times in seconds, a short title and a brief summary.',
+          state.prompt.trim() ? `Additional instructions: ${state.prompt.trim()}` : '',
+        ].filter(Boolean).join('\n');
+        const response = await generateContent(
+          GEMINI_PRO_MODEL,
+          chaptersPrompt,
+          {
+            frames: frames,
+            systemInstruction: 'You are an expert video editor who segments footage into chapters. The provided frames are sampled from a single video in chronological order, each labelled with its timestamp.',
+            responseMimeType: 'application/json',
+            responseSchema: VIDEO_CHAPTERS_SCHEMA,
+            abortSignal: abortController.signal,
+          }
+        );
+        usage = usageFromMetadata(response.usageMetadata);
+        dispatch({ type: 'UPDATE', payload: { chapters: parseVideoChapters(response.text ?? '[]') } });
+        return;
+      }
+
+      await generateContentStream(
+        GEMINI_PRO_MODEL,
+        state.prompt,
+        {
+          frames: frames,
+          systemInstruction: 'You are an expert video analyst. The provided frames are sampled from a single video in chronological order, each labelled with its timestamp. Use them to reason about what happens over time.',
+          abortSignal: abortController.signal,
+        },
+        (chunk, text) => {
+          usage = usageFromMetadata(chunk.usageMetadata) ?? usage;
+          dispatch({ type: 'UPDATE', payload: { response: text } });
+        }
+      );
+    } catch (error) {
+      if (!isAbortError(error, abortController.signal)) {
+        dispatch({ type: 'SET_ERROR', payload: handleApiError(error) });
+      }
+    } finally {
+      if (usage) {
+        dispatch({ type: 'UPDATE', payload: { usage } });
+        onUsage?.({ tool: Tab.VIDEO_UNDERSTANDING, model: GEMINI_PRO_MODEL, usage });
+      }
+      abortControllerRef.current = null;
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [onUsage, state.prompt, state.videoFile, state.frameRate, state.mode]);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const seekPlayer = useCallback((time: number) => {
+    const player = playerRef.current;
+    if (player) {
+      player.currentTime = time;
+      player.play().catch(e => console.error("Video playback error:", e));
+    }
+  }, []);
+
+  const exportChapters = useCallback((format: 'vtt' | 'json') => {
+    const baseName = state.videoFile?.name.replace(/\.[^.]+$/, '') || 'video';
+    if (format === 'vtt') {
+      downloadBlob(new Blob([chaptersToWebVtt(state.chapters)], { type: 'text/vtt' }), `${baseName}-chapters.vtt`);
+    } else {
+      downloadBlob(new Blob([chaptersToJson(state.chapters)], { type: 'application/json' }), `${baseName}-chapters.json`);
+    }
+  }, [state.chapters, state.videoFile]);
+
+  return (
+    <div className="space-y-6">
+      <ToolHeader
+        title={language === 'ar' ? 'فهم الفيديو' : 'Video Understanding'}
+        language={language}
+        onClear={() => dispatch({ type: 'CLEAR' })}
+        clearDisabled={state.loading}
+      />
+      {state.error && <ErrorMessage message={state.error} className="mb-4" />}
+      {state.loading && <LoadingSpinner message={language === 'ar' ? 'جارٍ التحميل...' : 'Loading...'} />}
+
+      <div className="flex space-x-2">
+        {(['question', 'chapters'] as VideoUnderstandingMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => dispatch({ type: 'UPDATE', payload: { mode } })}
+            className={`px-4 py-2 rounded-md text-sm font-medium ${
+              state.mode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {mode === 'question'
+              ? (language === 'ar' ? 'سؤال' : 'Question')
+              : (language === 'ar' ? 'الفصول' : 'Chapters')}
+          </button>
+        ))}
+      </div>
+
+      <ImageUploader
+        label={language === 'ar' ? 'قم بتحميل الفيديو للتحليل (سيتم أخذ عينات من الإطارات عبر المقطع بالكامل):' : 'Upload Video for Analysis (frames will be sampled across the whole clip):'}
+        allowedFileTypes={['video/mp4', 'video/webm', 'video/quicktime']}
+        value={state.videoFile}
+        onFileChange={(file) => {
+          dispatch({ type: 'UPDATE', payload: { videoFile: file } });
+        }}
+      />
+
+      <div>
+        <label htmlFor="videoFrameRate" className="block text-sm font-medium text-gray-700 mb-1">
+          {language === 'ar' ? 'معدل أخذ العينات (إطار في الثانية):' : 'Sampling Rate (frames per second):'}
+        </label>
+        <input
+          id="videoFrameRate"
+          type="number"
+          min={0.1}
+          max={FRAME_RATE}
+          step={0.1}
+          className="mt-1 block w-full pl-3 pr-3 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          value={state.frameRate}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { frameRate: Math.min(FRAME_RATE, Math.max(0.1, Number(e.target.value) || 0.1)) } })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          {language === 'ar'
+            ? `بحد أقصى ${MAX_VIDEO_FRAMES} إطاراً لكل طلب؛ يتم توزيع الإطارات بالتساوي على مقاطع الفيديو الطويلة.`
+            : `At most ${MAX_VIDEO_FRAMES} frames per request; longer videos are sampled evenly instead.`}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="videoUnderstandPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+          {state.mode === 'chapters'
+            ? (language === 'ar' ? 'تعليمات إضافية للفصول (اختياري):' : 'Additional chapter instructions (Optional):')
+            : (language === 'ar' ? 'أدخل استفسارك عن الفيديو:' : 'Enter your prompt about the video:')}
+        </label>
+        <textarea
+          id="videoUnderstandPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-y"
+          rows={4}
+          value={state.prompt}
+          onChange={(e) => dispatch({ type: 'UPDATE', payload: { prompt: e.target.value } })}
+          placeholder={language === 'ar' ? 'مثال: صف المشهد الرئيسي في هذا الفيديو...' : 'e.g., Describe the main scene in this video...'}
+        ></textarea>
+        <TokenCounter
+          model={GEMINI_PRO_MODEL}
+          prompt={state.prompt}
+          options={{ frames: sampledFrames }}
+          language={language}
+          className="mt-1"
+        />
+      </div>
+
+      {state.loading ? (
+        <button
+          onClick={handleStop}
+          className="w-full bg-red-500 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-red-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        >
+          {language === 'ar' ? 'إيقاف' : 'Stop'}
+        </button>
+      ) : (
+        <button
+          onClick={handleVideoUnderstanding}
+          className="w-full bg-blue-600 text-white py-3 px-6 rounded-md text-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          disabled={!state.videoFile || (state.mode === 'question' && !state.prompt.trim())}
+        >
+          {state.mode === 'chapters'
+            ? (language === 'ar' ? 'توليد الفصول' : 'Generate Chapters')
+            : (language === 'ar' ? 'تحليل الفيديو' : 'Analyze Video')}
+        </button>
+      )}
+
+      {state.chapters.length > 0 && (
+        <div className="mt-6 bg-gray-50 p-4 rounded-md shadow-inner space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-gray-800">{language === 'ar' ? 'الفصول:' : 'Chapters:'}</h3>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => exportChapters('vtt')}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'تصدير WebVTT' : 'Export WebVTT'}
+              </button>
+              <button
+                onClick={() => exportChapters('json')}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {language === 'ar' ? 'تصدير JSON' : 'Export JSON'}
+              </button>
+            </div>
+          </div>
+          {previewUrl && (
+            <div className="flex justify-center">
+              <VideoPlayer ref={playerRef} src={previewUrl} controls />
+            </div>
+          )}
+          <ol className="space-y-2">
+            {state.chapters.map((chapter, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => seekPlayer(chapter.startTime)}
+                  className="w-full text-left p-3 rounded-md bg-white border border-gray-200 hover:bg-blue-50 transition-colors duration-200"
+                >
+                  <span className="font-mono text-sm text-blue-600">
+                    {formatTimestamp(chapter.startTime)} – {formatTimestamp(chapter.endTime)}
+                  </span>
+                  <span className="block font-semibold text-gray-800">{chapter.title}</span>
+                  <span className="block text-sm text-gray-600">{chapter.summary}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {state.response && (
+        <div className="mt-6 bg-gray-50 p-4 rounded-md shadow-inner">
+          <h3 className="text-xl font-semibold text-gray-800 mb-2">{language === 'ar' ? 'تحليل الفيديو:' : 'Video Analysis:'}</h3>
+          <div className="whitespace-pre-wrap text-gray-700">{state.response}</div>
+        </div>
+      )}
+
+      {state.usage && <UsageSummary model={GEMINI_PRO_MODEL} usage={state.usage} language={language} />}
+    </div>
+  );
+};
+
+export default VideoUnderstandingTool;
@@ -1,15 +1,22 @@
-import { SupportedModels, Tab, AspectRatio, VideoAspectRatio, VideoResolution } from './types';
+import { Type, PersonGeneration } from '@google/genai';
+import { SupportedModels, Tab, AspectRatio, VideoAspectRatio, VideoResolution, PriceTable } from './types';
 
 export const GEMINI_FLASH_MODEL: SupportedModels = 'gemini-2.5-flash';
 export const GEMINI_FLASH_LITE_MODEL: SupportedModels = 'gemini-2.5-flash-lite';
 export const GEMINI_PRO_MODEL: SupportedModels = 'gemini-2.5-pro';
 export const IMAGEN_MODEL: SupportedModels = 'imagen-4.0-generate-001';
 export const VEO_FAST_MODEL: SupportedModels = 'veo-3.1-fast-generate-preview';
-export const VEO_GENERATE_MODEL: SupportedModels = 'veo-3.1-generate-preview'; // For reference images
+export const VEO_GENERATE_MODEL: SupportedModels = 'veo-3.1-generate-preview'; // For reference images and video extension
 export const GEMINI_FLASH_IMAGE_MODEL: SupportedModels = 'gemini-2.5-flash-image';
 export const GEMINI_LIVE_AUDIO_MODEL: SupportedModels = 'gemini-2.5-flash-native-audio-preview-09-2025';
 export const GEMINI_TTS_MODEL: SupportedModels = 'gemini-2.5-flash-preview-tts';
 
+export const TEXT_MODELS = [
+  { value: GEMINI_FLASH_MODEL, label: 'Gemini 2.5 Flash' },
+  { value: GEMINI_FLASH_LITE_MODEL, label: 'Gemini 2.5 Flash Lite' },
+  { value: GEMINI_PRO_MODEL, label: 'Gemini 2.5 Pro' },
+];
+
 export const ALL_TABS: Tab[] = [
   Tab.TEXT_GENERATION,
   Tab.IMAGE_GENERATION,
@@ -20,11 +27,36 @@ export const ALL_TABS: Tab[] = [
   Tab.TEXT_TO_SPEECH,
   Tab.CHATBOT,
   Tab.GROUNDING,
+  Tab.ASSET_LIBRARY,
 ];
 
 export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
 export const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
 export const VIDEO_RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+export const MAX_VEO_REFERENCE_IMAGES = 3;
+export const VEO_MODELS = [
+  { value: VEO_FAST_MODEL, label: 'Veo 3.1 Fast' },
+  { value: VEO_GENERATE_MODEL, label: 'Veo 3.1' },
+];
+export const VEO_EXTENSION_SECONDS = [4, 6, 8];
+export const MAX_EDIT_IMAGES = 3;
+
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.csv': 'text/csv',
+};
+export const MAX_INLINE_PDF_BYTES = 15 * 1024 * 1024; // Keeps the base64-encoded request under the 20 MB inline limit
+export const MAX_INLINE_REQUEST_BYTES = 20 * 1024 * 1024; // Inline data limit for all documents in one request, once encoded
+
+export const MAX_IMAGE_VARIANTS = 4;
+export const PERSON_GENERATION_OPTIONS = [
+  { value: PersonGeneration.ALLOW_ADULT, label: 'Allow adults' },
+  { value: PersonGeneration.ALLOW_ALL, label: 'Allow all people' },
+  { value: PersonGeneration.DONT_ALLOW, label: "Don't allow people" },
+];
 
 export const VOICE_NAMES = [
   { value: 'Kore', label: 'Kore (Female)' },
@@ -33,6 +65,37 @@ export const VOICE_NAMES = [
   { value: 'Fenrir', label: 'Fenrir (Female)' },
   { value: 'Zephyr', label: 'Zephyr (Female)' },
 ];
+export const TTS_SAMPLE_RATE = 24000; // The TTS model returns 16-bit mono PCM at 24 kHz
+export const TTS_SPEAKER_COUNT = 2; // Multi-speaker voice config takes exactly two speakers
+export const LIVE_INPUT_SAMPLE_RATE = 16000; // The Live API expects 16-bit mono PCM at 16 kHz
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+export const LIVE_AUDIO_CHUNK_MS = 100; // Microphone audio is sent in chunks of this length
+export const LIVE_RECONNECT_ATTEMPTS = 5;
+export const LIVE_RECONNECT_BASE_DELAY_MS = 1000; // Doubled after each failed attempt
+export const LIVE_RECONNECT_MAX_DELAY_MS = 15000;
+export const LIVE_MAX_BUFFERED_AUDIO_MS = 10000; // Microphone audio kept while reconnecting, replayed once connected
+export const LIVE_FRAME_RATE = 1; // The Live API processes about one video frame per second; more only adds bandwidth
+export const LIVE_JPEG_QUALITY = 0.6;
+export const LIVE_DEFAULT_SYSTEM_INSTRUCTION = 'You are a helpful and friendly AI assistant, ready to chat.';
+export const LIVE_RESPONSE_LANGUAGES = [
+  { value: '', label: 'Same as the user' },
+  { value: 'en', label: 'English' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ja', label: 'Japanese' },
+];
+
+// Thinking budget range per model. -1 asks the model to pick its own (dynamic) budget;
+// 0 turns thinking off where the model allows it.
+export const DYNAMIC_THINKING_BUDGET = -1;
+export const THINKING_BUDGET_LIMITS: Partial<Record<SupportedModels, { min: number; max: number; canDisable: boolean }>> = {
+  [GEMINI_PRO_MODEL]: { min: 128, max: 32768, canDisable: false },
+  [GEMINI_FLASH_MODEL]: { min: 1, max: 24576, canDisable: true },
+  [GEMINI_FLASH_LITE_MODEL]: { min: 512, max: 24576, canDisable: true },
+};
 
 export const DEFAULT_SYSTEM_INSTRUCTION_TEXT = 'You are a helpful AI assistant.';
 
@@ -40,3 +103,45 @@ export const VEO_BILLING_DOCS_LINK = 'https://ai.google.dev/gemini-api/docs/bill
 
 export const JPEG_QUALITY = 0.9;
 export const FRAME_RATE = 5; // Frames per second for video understanding
+export const MAX_VIDEO_FRAMES = 60; // Upper bound on frames sent per video understanding request
+export const VIDEO_FRAME_MAX_DIMENSION = 768; // Longest side (px) of frames sent for video understanding
+
+// Structured output schema for the Video Understanding "Chapters" mode.
+export const VIDEO_CHAPTERS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      startTime: { type: Type.NUMBER, description: 'Segment start, in seconds from the beginning of the video.' },
+      endTime: { type: Type.NUMBER, description: 'Segment end, in seconds from the beginning of the video.' },
+      title: { type: Type.STRING, description: 'Short chapter title.' },
+      summary: { type: Type.STRING, description: 'One or two sentence summary of what happens in the segment.' },
+    },
+    required: ['startTime', 'endTime', 'title', 'summary'],
+    propertyOrdering: ['startTime', 'endTime', 'title', 'summary'],
+  },
+};
+
+export const VEO_POLL_INTERVAL_MS = 10000;
+export const VIDEO_JOBS_STORAGE_KEY = 'gemini-multi-tool-app:video-jobs';
+export const PLAYGROUND_FUNCTIONS_STORAGE_KEY = 'gemini-multi-tool-app:playground-functions';
+// Live Chat keeps its own copy so the two mounted tools don't overwrite each other's edits
+export const LIVE_FUNCTIONS_STORAGE_KEY = 'gemini-multi-tool-app:live-functions';
+export const FUNCTION_TIMEOUT_MS = 5000;
+export const MAX_FUNCTION_CALL_ROUNDS = 5; // Guards against the model calling functions forever
+
+// Paid-tier list prices when this table was written. Users can edit them in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+  'veo-3.1-fast-generate-preview': { perVideoSecond: 0.15 },
+  'veo-3.1-generate-preview': { perVideoSecond: 0.4 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-native-audio-preview-09-2025': { inputPerMillion: 3, outputPerMillion: 12 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+};
+export const PRICE_TABLE_STORAGE_KEY = 'gemini-multi-tool-app:price-table';
+export const TOKEN_COUNT_DEBOUNCE_MS = 600;
+export const VEO_DEFAULT_DURATION_SECONDS = 8;
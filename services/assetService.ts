@@ -0,0 +1,61 @@
+import { Asset, AssetKind, ImageInput, SupportedModels, Tab } from '../types';
+import { STORE_ASSETS, getAllRecords, putRecord, deleteRecord } from './storageService';
+import { decode } from './geminiService';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'audio/wav': 'wav',
+  'audio/pcm': 'pcm',
+};
+
+export function base64ToBlob(base64Data: string, mimeType: string): Blob {
+  return new Blob([decode(base64Data)], { type: mimeType });
+}
+
+export function blobToImageInput(blob: Blob): Promise<ImageInput> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ base64Data: (reader.result as string).split(',')[1], mimeType: blob.type });
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read asset.'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function assetFilename(asset: Asset): string {
+  const extension = EXTENSIONS[asset.mimeType.split(';')[0]] ?? 'bin';
+  const stamp = new Date(asset.createdAt).toISOString().replace(/[:.]/g, '-');
+  return `${asset.kind}-${stamp}.${extension}`;
+}
+
+// Most recent assets first.
+export async function listAssets(): Promise<Asset[]> {
+  const assets = await getAllRecords<Asset>(STORE_ASSETS);
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveAsset(params: {
+  kind: AssetKind;
+  tool: Tab;
+  blob: Blob;
+  prompt: string;
+  model: SupportedModels;
+  aspectRatio?: string;
+}): Promise<Asset> {
+  const asset: Asset = {
+    id: crypto.randomUUID(),
+    mimeType: params.blob.type,
+    createdAt: Date.now(),
+    ...params,
+  };
+  await putRecord(STORE_ASSETS, asset);
+  return asset;
+}
+
+export async function deleteAssets(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    await deleteRecord(STORE_ASSETS, id);
+  }
+}
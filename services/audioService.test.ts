@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { pcmToWav } from './audioService';
+
+function readString(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+describe('pcmToWav', () => {
+  it('writes a 44-byte RIFF header followed by the samples', async () => {
+    const pcm = new Uint8Array([1, 2, 3, 4, 5, 6]);
+    const wav = pcmToWav(pcm, 24000);
+    expect(wav.type).toBe('audio/wav');
+    expect(wav.size).toBe(44 + pcm.byteLength);
+
+    const view = new DataView(await wav.arrayBuffer());
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.byteLength);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // Mono
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000); // Byte rate
+    expect(view.getUint16(32, true)).toBe(2); // Block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.byteLength);
+    expect(Array.from(new Uint8Array(await wav.arrayBuffer(), 44))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('accounts for every channel in the byte rate and block align', async () => {
+    const view = new DataView(await pcmToWav(new Uint8Array(4), 16000, 2).arrayBuffer());
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(64000);
+    expect(view.getUint16(32, true)).toBe(4);
+  });
+});
@@ -0,0 +1,257 @@
+// Wraps 16-bit little-endian PCM samples in a WAV (RIFF) container so browsers can play and save them.
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels = 1): Blob {
+  const bytesPerSample = 2;
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM format
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * bytesPerSample, true); // Byte rate
+  header.setUint16(32, numChannels * bytesPerSample, true); // Block align
+  header.setUint16(34, bytesPerSample * 8, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+// Runs on the audio rendering thread. Low-pass filters and linearly resamples the microphone
+// to the target rate, clamps to 16-bit PCM and posts fixed-size chunks back to the page.
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate; // Input samples per output sample
+    this.alpha = this.step > 1 ? 1 - Math.exp(-2 * Math.PI * (targetSampleRate / 2) / sampleRate) : 1;
+    this.filtered = 0;
+    this.previous = 0; // Last filtered sample of the previous block
+    this.position = 0; // Next output position, in input samples from the start of the block
+    this.chunkSamples = chunkSamples;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    if (!this.samples || this.samples.length !== channel.length) this.samples = new Float32Array(channel.length);
+    const samples = this.samples;
+    for (let i = 0; i < channel.length; i++) {
+      this.filtered += this.alpha * (channel[i] - this.filtered);
+      samples[i] = this.filtered;
+    }
+    const last = samples.length - 1;
+    while (this.position <= last) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previous : samples[index];
+      const b = fraction > 0 ? samples[index + 1] : a;
+      const value = Math.max(-1, Math.min(1, a + (b - a) * fraction));
+      this.chunk[this.filled++] = value < 0 ? value * 0x8000 : value * 0x7fff;
+      if (this.filled === this.chunkSamples) {
+        this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+        this.chunk = new Int16Array(this.chunkSamples);
+        this.filled = 0;
+      }
+      this.position += this.step;
+    }
+    this.position -= samples.length;
+    this.previous = samples[last];
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// Plays queued 16-bit PCM chunks back to back; 'clear' drops everything still queued.
+const PLAYBACK_PROCESSOR_SOURCE = `
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.queue = [];
+    this.offset = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'clear') {
+        this.queue = [];
+        this.offset = 0;
+        return;
+      }
+      const pcm = new Int16Array(event.data, 0, event.data.byteLength >> 1);
+      const samples = new Float32Array(pcm.length);
+      for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+      this.queue.push(samples);
+    };
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0][0];
+    let written = 0;
+    while (written < output.length && this.queue.length > 0) {
+      const current = this.queue[0];
+      const count = Math.min(output.length - written, current.length - this.offset);
+      output.set(current.subarray(this.offset, this.offset + count), written);
+      written += count;
+      this.offset += count;
+      if (this.offset === current.length) {
+        this.queue.shift();
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-playback', PcmPlaybackProcessor);
+`;
+
+async function addWorkletModule(context: AudioContext, source: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export interface PcmCapture {
+  stop: () => void;
+}
+
+// Streams a microphone as 16-bit mono PCM chunks of `chunkMs` at `sampleRate`.
+// The context runs at the device rate; resampling happens in the worklet, off the main thread.
+export async function startPcmCapture(
+  stream: MediaStream,
+  sampleRate: number,
+  chunkMs: number,
+  onChunk: (pcm: Int16Array) => void,
+): Promise<PcmCapture> {
+  const context = new AudioContext();
+  try {
+    await addWorkletModule(context, CAPTURE_PROCESSOR_SOURCE);
+  } catch (error) {
+    context.close();
+    throw error;
+  }
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    outputChannelCount: [1],
+    processorOptions: { targetSampleRate: sampleRate, chunkSamples: Math.round((sampleRate * chunkMs) / 1000) },
+  });
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(event.data));
+  source.connect(node);
+  node.connect(context.destination); // Silent output; keeps the node pulled by the graph
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      context.close();
+    },
+  };
+}
+
+export interface PcmPlayer {
+  play: (pcm: Uint8Array) => void;
+  clear: () => void; // Drops queued audio, e.g. when the model is interrupted
+  close: () => void;
+}
+
+// Gapless playback of 16-bit mono PCM at `sampleRate`, queued on the audio thread.
+export async function createPcmPlayer(sampleRate: number): Promise<PcmPlayer> {
+  const context = new AudioContext({ sampleRate });
+  try {
+    await addWorkletModule(context, PLAYBACK_PROCESSOR_SOURCE);
+  } catch (error) {
+    context.close();
+    throw error;
+  }
+  const node = new AudioWorkletNode(context, 'pcm-playback', { numberOfInputs: 0, outputChannelCount: [1] });
+  node.connect(context.destination);
+  return {
+    play: (pcm) => {
+      const copy = pcm.slice(); // Transfer a copy so the caller keeps its bytes
+      node.port.postMessage(copy.buffer, [copy.buffer]);
+    },
+    clear: () => node.port.postMessage('clear'),
+    close: () => {
+      node.disconnect();
+      context.close();
+    },
+  };
+}
+
+export interface SessionRecorder {
+  addInput: (pcm: Int16Array) => void; // Microphone audio, captured continuously from the start
+  addOutput: (pcm: Int16Array, atMs: number) => void; // Model audio, played after any still queued
+  interruptOutput: (atMs: number) => void; // Queued model audio from this point on was never played
+  toWav: () => Blob;
+}
+
+// Records both sides of a live session on one timeline and mixes them into a mono WAV at the
+// output rate. Model audio is placed where the gapless player would have played it.
+export function createSessionRecorder(inputSampleRate: number, outputSampleRate: number): SessionRecorder {
+  const inputChunks: Int16Array[] = [];
+  let outputSegments: { start: number; pcm: Int16Array }[] = []; // `start` in output samples
+  let outputCursor = 0;
+  const toSamples = (ms: number) => Math.round((ms / 1000) * outputSampleRate);
+
+  return {
+    addInput: (pcm) => {
+      inputChunks.push(pcm);
+    },
+    addOutput: (pcm, atMs) => {
+      const start = Math.max(outputCursor, toSamples(atMs));
+      outputSegments.push({ start, pcm });
+      outputCursor = start + pcm.length;
+    },
+    interruptOutput: (atMs) => {
+      const cut = toSamples(atMs);
+      outputSegments = outputSegments
+        .filter(segment => segment.start < cut)
+        .map(segment => ({ start: segment.start, pcm: segment.pcm.subarray(0, cut - segment.start) }));
+      outputCursor = Math.min(outputCursor, cut);
+    },
+    toWav: () => {
+      const inputLength = inputChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      const input = new Int16Array(inputLength);
+      let offset = 0;
+      for (const chunk of inputChunks) {
+        input.set(chunk, offset);
+        offset += chunk.length;
+      }
+
+      const step = inputSampleRate / outputSampleRate;
+      const length = Math.max(Math.floor(inputLength / step), outputCursor);
+      const mix = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const position = i * step;
+        const index = Math.floor(position);
+        if (index >= inputLength) break;
+        const next = Math.min(index + 1, inputLength - 1);
+        mix[i] = (input[index] + (input[next] - input[index]) * (position - index)) / 32768;
+      }
+      for (const segment of outputSegments) {
+        for (let i = 0; i < segment.pcm.length; i++) {
+          mix[segment.start + i] += segment.pcm[i] / 32768;
+        }
+      }
+
+      const pcm = new Int16Array(length);
+      for (let i = 0; i < length; i++) {
+        const value = Math.max(-1, Math.min(1, mix[i]));
+        pcm[i] = value < 0 ? value * 0x8000 : value * 0x7fff;
+      }
+      return pcmToWav(new Uint8Array(pcm.buffer), outputSampleRate);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { toChatHistory } from './conversationService';
+import { DocumentAttachment } from '../types';
+
+const notes: DocumentAttachment = { id: 'd1', name: 'notes.md', mimeType: 'text/markdown', size: 11, text: '# Notes\nHi' };
+const report: DocumentAttachment = { id: 'd2', name: 'report.pdf', mimeType: 'application/pdf', size: 3, base64Data: 'JVBE' };
+
+describe('toChatHistory', () => {
+  it('maps messages to chat history in order', () => {
+    expect(toChatHistory([
+      { role: 'user', content: 'Hello' },
+      { role: 'model', content: 'Hi there' },
+    ])).toEqual([
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi there' }] },
+    ]);
+  });
+
+  it('leaves out messages without content', () => {
+    expect(toChatHistory([
+      { role: 'user', content: 'Hello' },
+      { role: 'model', content: '' },
+    ])).toEqual([{ role: 'user', parts: [{ text: 'Hello' }] }]);
+  });
+
+  it('opens the history with the attached documents', () => {
+    const history = toChatHistory([{ role: 'user', content: 'Summarise them' }], [notes, report]);
+    expect(history).toHaveLength(3);
+    expect(history[0].role).toBe('user');
+    expect(history[0].parts).toEqual([
+      { text: 'Document "notes.md":\n# Notes\nHi' },
+      { text: 'Document "report.pdf":' },
+      { inlineData: { data: 'JVBE', mimeType: 'application/pdf' } },
+      { text: 'Use these documents as context for the rest of our conversation.' },
+    ]);
+    expect(history[1].role).toBe('model');
+    expect(history[2]).toEqual({ role: 'user', parts: [{ text: 'Summarise them' }] });
+  });
+});
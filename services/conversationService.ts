@@ -0,0 +1,50 @@
+import { Content } from '@google/genai';
+import { ChatMessage, Conversation, DocumentAttachment } from '../types';
+import { STORE_CONVERSATIONS, getAllRecords, putRecord, deleteRecord } from './storageService';
+import { documentsToParts } from './documentService';
+
+const MAX_TITLE_LENGTH = 40;
+
+// Most recently updated conversations first.
+export async function listConversations(): Promise<Conversation[]> {
+  const conversations = await getAllRecords<Conversation>(STORE_CONVERSATIONS);
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function createConversation(firstMessage?: string): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: firstMessage ? titleFromMessage(firstMessage) : 'New conversation',
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH)}…` : singleLine;
+}
+
+export function saveConversation(conversation: Conversation): Promise<void> {
+  return putRecord(STORE_CONVERSATIONS, conversation);
+}
+
+export function deleteConversation(id: string): Promise<void> {
+  return deleteRecord(STORE_CONVERSATIONS, id);
+}
+
+// Rebuilds the `ai.chats.create` history so a resumed conversation keeps its context.
+// Attached documents open the history, so every turn can refer to them.
+export function toChatHistory(messages: ChatMessage[], documents: DocumentAttachment[] = []): Content[] {
+  const history: Content[] = messages
+    .filter(message => message.content)
+    .map(message => ({ role: message.role, parts: [{ text: message.content }] }));
+  if (documents.length === 0) return history;
+  return [
+    { role: 'user', parts: [...documentsToParts(documents), { text: 'Use these documents as context for the rest of our conversation.' }] },
+    { role: 'model', parts: [{ text: 'Understood. I will refer to the attached documents when answering.' }] },
+    ...history,
+  ];
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { assertDocumentsFitRequest, documentsRequestBytes } from './documentService';
+import { MAX_INLINE_REQUEST_BYTES } from '../constants';
+import { DocumentAttachment } from '../types';
+
+function textDocument(text: string): DocumentAttachment {
+  return { id: crypto.randomUUID(), name: 'notes.txt', mimeType: 'text/plain', size: text.length, text };
+}
+
+function pdfDocument(base64Length: number): DocumentAttachment {
+  return { id: crypto.randomUUID(), name: 'report.pdf', mimeType: 'application/pdf', size: base64Length, base64Data: 'A'.repeat(base64Length) };
+}
+
+describe('documentsRequestBytes', () => {
+  it('counts text as UTF-8 and PDFs by their base64 length', () => {
+    expect(documentsRequestBytes([textDocument('abc'), textDocument('مرحبا'), pdfDocument(8)])).toBe(3 + 10 + 8);
+  });
+});
+
+describe('assertDocumentsFitRequest', () => {
+  it('accepts documents up to the inline limit', () => {
+    expect(() => assertDocumentsFitRequest([pdfDocument(MAX_INLINE_REQUEST_BYTES)])).not.toThrow();
+  });
+
+  it('rejects documents that together exceed the inline limit', () => {
+    const half = MAX_INLINE_REQUEST_BYTES / 2;
+    expect(() => assertDocumentsFitRequest([pdfDocument(half), pdfDocument(half), textDocument('x')])).toThrow(/limit for one request/);
+  });
+});
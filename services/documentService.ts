@@ -0,0 +1,72 @@
+import { Part } from '@google/genai';
+import { DocumentAttachment } from '../types';
+import { DOCUMENT_MIME_TYPES, MAX_INLINE_PDF_BYTES, MAX_INLINE_REQUEST_BYTES } from '../constants';
+
+export const DOCUMENT_ACCEPT = [...Object.keys(DOCUMENT_MIME_TYPES), ...new Set(Object.values(DOCUMENT_MIME_TYPES))].join(',');
+
+// Browsers often report an empty or vendor-specific type for Markdown and CSV files,
+// so the extension decides.
+function documentMimeType(file: File): string | undefined {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  return DOCUMENT_MIME_TYPES[extension];
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function readDocument(file: File): Promise<DocumentAttachment> {
+  const mimeType = documentMimeType(file);
+  if (!mimeType) {
+    throw new Error(`${file.name} is not a supported document. Use PDF, plain text, Markdown or CSV.`);
+  }
+  const attachment = { id: crypto.randomUUID(), name: file.name, mimeType, size: file.size };
+  if (mimeType === 'application/pdf') {
+    if (file.size > MAX_INLINE_PDF_BYTES) {
+      throw new Error(`${file.name} is larger than ${formatFileSize(MAX_INLINE_PDF_BYTES)}.`);
+    }
+    return { ...attachment, base64Data: await readAsBase64(file) };
+  }
+  return { ...attachment, text: await file.text() };
+}
+
+// Request parts for a document, labelled with the file name so the model can tell
+// several documents apart. Everything is sent inline in the one request.
+export function documentToParts(attachment: DocumentAttachment): Part[] {
+  if (attachment.base64Data) {
+    return [
+      { text: `Document "${attachment.name}":` },
+      { inlineData: { data: attachment.base64Data, mimeType: attachment.mimeType } },
+    ];
+  }
+  return [{ text: `Document "${attachment.name}":\n${attachment.text ?? ''}` }];
+}
+
+export function documentsToParts(documents: DocumentAttachment[]): Part[] {
+  return documents.flatMap(documentToParts);
+}
+
+// Approximate size the documents add to a request: base64 for PDFs, UTF-8 for text.
+export function documentsRequestBytes(documents: DocumentAttachment[]): number {
+  const encoder = new TextEncoder();
+  return documents.reduce((total, doc) => total + (doc.base64Data ? doc.base64Data.length : encoder.encode(doc.text ?? '').length), 0);
+}
+
+// Throws when the documents together are too large to send inline in one request.
+export function assertDocumentsFitRequest(documents: DocumentAttachment[]): void {
+  const bytes = documentsRequestBytes(documents);
+  if (bytes > MAX_INLINE_REQUEST_BYTES) {
+    throw new Error(`The attached documents add up to ${formatFileSize(bytes)} once encoded, over the ${formatFileSize(MAX_INLINE_REQUEST_BYTES)} limit for one request. Remove some documents and try again.`);
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
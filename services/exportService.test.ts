@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { chaptersToWebVtt, formatSrtTimestamp, formatVttTimestamp } from './exportService';
+
+describe('formatVttTimestamp', () => {
+  it('formats hours, minutes, seconds and milliseconds', () => {
+    expect(formatVttTimestamp(0)).toBe('00:00:00.000');
+    expect(formatVttTimestamp(3723.456)).toBe('01:02:03.456');
+  });
+
+  it('rounds to the nearest millisecond without overflowing into the next second', () => {
+    expect(formatVttTimestamp(59.9996)).toBe('00:01:00.000');
+    expect(formatVttTimestamp(1.0004)).toBe('00:00:01.000');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatVttTimestamp(-5)).toBe('00:00:00.000');
+  });
+});
+
+describe('formatSrtTimestamp', () => {
+  it('uses a comma before the milliseconds', () => {
+    expect(formatSrtTimestamp(3723.456)).toBe('01:02:03,456');
+  });
+});
+
+describe('chaptersToWebVtt', () => {
+  it('writes a numbered cue per chapter with its title and summary', () => {
+    const vtt = chaptersToWebVtt([
+      { startTime: 0, endTime: 12.5, title: 'Intro', summary: 'The host says hello.' },
+      { startTime: 12.5, endTime: 90, title: 'Demo', summary: 'A walkthrough of the app.' },
+    ]);
+    expect(vtt).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:00.000 --> 00:00:12.500',
+      'Intro',
+      'The host says hello.',
+      '',
+      '2',
+      '00:00:12.500 --> 00:01:30.000',
+      'Demo',
+      'A walkthrough of the app.',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes only the header when there are no chapters', () => {
+    expect(chaptersToWebVtt([])).toBe('WEBVTT\n');
+  });
+});
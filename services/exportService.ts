@@ -0,0 +1,74 @@
+import { LiveTurn, VideoChapter } from '../types';
+
+const DOWNLOAD_REVOKE_DELAY_MS = 10000;
+
+// Triggers a browser download for a data or object URL.
+export function downloadUrl(url: string, filename: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+// Triggers a browser download for the given blob.
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Revoking right after the click can cancel the download in Safari and Firefox.
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY_MS);
+}
+
+// Formats seconds as hh:mm:ss.mmm, as required by WebVTT cue timings.
+export function formatVttTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+export function chaptersToWebVtt(chapters: VideoChapter[]): string {
+  const cues = chapters.map((chapter, index) => [
+    `${index + 1}`,
+    `${formatVttTimestamp(chapter.startTime)} --> ${formatVttTimestamp(chapter.endTime)}`,
+    chapter.title,
+    chapter.summary,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function chaptersToJson(chapters: VideoChapter[]): string {
+  return JSON.stringify(chapters, null, 2);
+}
+
+// SRT uses the WebVTT timestamp layout with a comma before the milliseconds.
+export function formatSrtTimestamp(seconds: number): string {
+  return formatVttTimestamp(seconds).replace('.', ',');
+}
+
+const LIVE_SPEAKER_LABELS: Record<LiveTurn['speaker'], string> = { user: 'User', model: 'AI' };
+const MIN_SRT_CUE_MS = 500; // Single-chunk turns would otherwise get an empty cue
+
+export function liveTurnsToMarkdown(turns: LiveTurn[], startedAt: number | null): string {
+  const heading = startedAt ? `# Live Chat — ${new Date(startedAt).toLocaleString()}` : '# Live Chat';
+  const lines = turns.map(turn => {
+    const time = formatVttTimestamp(turn.startMs / 1000).slice(0, 8);
+    return `**${LIVE_SPEAKER_LABELS[turn.speaker]}** (${time}): ${turn.text}${turn.interrupted ? ' _(interrupted)_' : ''}`;
+  });
+  return [heading, ...lines].join('\n\n') + '\n';
+}
+
+export function liveTurnsToJson(turns: LiveTurn[], startedAt: number | null): string {
+  return JSON.stringify({ startedAt: startedAt ? new Date(startedAt).toISOString() : null, turns }, null, 2);
+}
+
+export function liveTurnsToSrt(turns: LiveTurn[]): string {
+  return turns.map((turn, index) => [
+    `${index + 1}`,
+    `${formatSrtTimestamp(turn.startMs / 1000)} --> ${formatSrtTimestamp(Math.max(turn.endMs, turn.startMs + MIN_SRT_CUE_MS) / 1000)}`,
+    `${LIVE_SPEAKER_LABELS[turn.speaker]}: ${turn.text}`,
+  ].join('\n')).join('\n\n') + '\n';
+}
@@ -0,0 +1,154 @@
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+import { FunctionCallTrace, PlaygroundFunction, ToolFunctionDeclaration } from '../types';
+import { PLAYGROUND_FUNCTIONS_STORAGE_KEY, FUNCTION_TIMEOUT_MS } from '../constants';
+import { jsonSchemaToSchema } from './structuredOutputService';
+
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+// Runs inside the worker. The sandbox page's origin and CSP are what actually isolate the
+// user's code; removing these globals (from the scope and its prototypes) only makes a
+// blocked call fail early with a clear error instead of a network or security error.
+const WORKER_SOURCE = `
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'BroadcastChannel']) {
+  for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+    try { delete scope[name]; } catch {}
+  }
+}
+self.onmessage = async (event) => {
+  try {
+    const fn = new Function('args', event.data.code);
+    const result = await fn(event.data.args);
+    self.postMessage({ result: result === undefined ? null : JSON.parse(JSON.stringify(result)) });
+  } catch (error) {
+    self.postMessage({ error: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+// Loaded into a `sandbox="allow-scripts"` iframe, so the page and its worker get an opaque
+// origin: no cookies, storage or IndexedDB of the app. The CSP blocks all network access,
+// including dynamic import(), for the page and (inherited) for the Blob worker.
+const SANDBOX_SOURCE = `<!DOCTYPE html>
+<html><head>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:">
+</head><body><script>
+const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' })));
+worker.onmessage = (event) => parent.postMessage(event.data, '*');
+worker.onerror = (event) => {
+  event.preventDefault();
+  parent.postMessage({ error: event.message || 'The function threw an error.' }, '*');
+};
+window.onmessage = (event) => worker.postMessage(event.data);
+</script></body></html>`;
+
+export function createPlaygroundFunction(): PlaygroundFunction {
+  return {
+    id: crypto.randomUUID(),
+    name: 'get_weather',
+    description: 'Get the current weather for a city.',
+    parametersJson: JSON.stringify({
+      type: 'object',
+      properties: { city: { type: 'string', description: 'City name, e.g. Riyadh' } },
+      required: ['city'],
+    }, null, 2),
+    implementation: 'mock',
+    code: 'return { city: args.city, temperatureC: 31, condition: "Sunny" };',
+    mockResponse: JSON.stringify({ temperatureC: 31, condition: 'Sunny' }, null, 2),
+  };
+}
+
+export function loadPlaygroundFunctions(storageKey = PLAYGROUND_FUNCTIONS_STORAGE_KEY): PlaygroundFunction[] {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : [createPlaygroundFunction()];
+  } catch (error) {
+    console.error('Failed to load playground functions:', error);
+    return [createPlaygroundFunction()];
+  }
+}
+
+export function savePlaygroundFunctions(functions: PlaygroundFunction[], storageKey = PLAYGROUND_FUNCTIONS_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(functions));
+  } catch (error) {
+    console.error('Failed to save playground functions:', error);
+  }
+}
+
+// Builds the `functionDeclarations` tool for a chat. Throws with the offending function's
+// name if a name is invalid or its parameter schema cannot be parsed.
+export function toFunctionTool(functions: PlaygroundFunction[]): ToolFunctionDeclaration {
+  const functionDeclarations: FunctionDeclaration[] = functions.map((fn) => {
+    if (!FUNCTION_NAME_PATTERN.test(fn.name)) {
+      throw new Error(`"${fn.name}" is not a valid function name. Use letters, digits and underscores.`);
+    }
+    try {
+      return {
+        name: fn.name,
+        description: fn.description,
+        parameters: fn.parametersJson.trim() ? jsonSchemaToSchema(fn.parametersJson) : undefined,
+      };
+    } catch (error) {
+      throw new Error(`Parameters for ${fn.name}: ${(error as Error).message}`);
+    }
+  });
+  return { functionDeclarations };
+}
+
+// Runs the code in a fresh sandbox per call. Removing the iframe also terminates its worker,
+// which is how runaway code is stopped after the timeout.
+function runInSandbox(code: string, args: Record<string, unknown>): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = SANDBOX_SOURCE;
+    const finish = () => {
+      clearTimeout(timeout);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+    };
+    const timeout = setTimeout(() => {
+      finish();
+      reject(new Error(`Timed out after ${FUNCTION_TIMEOUT_MS / 1000} seconds.`));
+    }, FUNCTION_TIMEOUT_MS);
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow) return;
+      finish();
+      if (event.data?.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data?.result);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    // The sandbox has an opaque origin, so messages to it can't name a target origin.
+    frame.onload = () => frame.contentWindow?.postMessage({ code, args }, '*');
+    document.body.appendChild(frame);
+  });
+}
+
+// Answers one function call from the model. Failures are recorded on the trace rather
+// than thrown, so the model is told about the error and can recover.
+export async function executeFunctionCall(call: FunctionCall, functions: PlaygroundFunction[]): Promise<FunctionCallTrace> {
+  const name = call.name ?? '';
+  const args = call.args ?? {};
+  const fn = functions.find(f => f.name === name);
+  if (!fn) {
+    return { name, args, error: `Unknown function: ${name}` };
+  }
+  try {
+    if (fn.implementation === 'code') {
+      return { name, args, response: await runInSandbox(fn.code, args) };
+    }
+    let response: unknown = fn.mockResponse;
+    try {
+      response = JSON.parse(fn.mockResponse);
+    } catch {
+      // Plain-text mock responses are passed through as strings.
+    }
+    return { name, args, response };
+  } catch (error) {
+    return { name, args, error: (error as Error).message };
+  }
+}
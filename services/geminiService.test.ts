@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { clampThinkingBudget } from './geminiService';
+import { DYNAMIC_THINKING_BUDGET, GEMINI_FLASH_LITE_MODEL, GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, IMAGEN_MODEL } from '../constants';
+
+describe('clampThinkingBudget', () => {
+  it('keeps budgets inside the model range', () => {
+    expect(clampThinkingBudget(GEMINI_FLASH_MODEL, 1024)).toBe(1024);
+    expect(clampThinkingBudget(GEMINI_PRO_MODEL, 32768)).toBe(32768);
+  });
+
+  it('raises budgets below the model minimum', () => {
+    expect(clampThinkingBudget(GEMINI_PRO_MODEL, 10)).toBe(128);
+    expect(clampThinkingBudget(GEMINI_FLASH_LITE_MODEL, 100)).toBe(512);
+  });
+
+  it('lowers budgets above the model maximum', () => {
+    expect(clampThinkingBudget(GEMINI_FLASH_MODEL, 32768)).toBe(24576);
+  });
+
+  it('allows turning thinking off only for models that can disable it', () => {
+    expect(clampThinkingBudget(GEMINI_FLASH_MODEL, 0)).toBe(0);
+    expect(clampThinkingBudget(GEMINI_FLASH_LITE_MODEL, 0)).toBe(0);
+    expect(clampThinkingBudget(GEMINI_PRO_MODEL, 0)).toBe(128);
+  });
+
+  it('keeps the dynamic budget as is', () => {
+    expect(clampThinkingBudget(GEMINI_PRO_MODEL, DYNAMIC_THINKING_BUDGET)).toBe(DYNAMIC_THINKING_BUDGET);
+  });
+
+  it('passes budgets through for models without thinking limits', () => {
+    expect(clampThinkingBudget(IMAGEN_MODEL, 5)).toBe(5);
+  });
+});
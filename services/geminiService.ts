@@ -1,6 +1,8 @@
-import { GoogleGenAI, Modality, Blob as GeminiBlob, GenerateContentResponse, GenerateContentParameters, ThinkingConfig, Tool, GenerateVideoOperation } from "@google/genai";
-import { SupportedModels, AspectRatio, VideoAspectRatio, VideoResolution, GroundingChunk, ImageInput } from '../types';
-import { VEO_BILLING_DOCS_LINK } from '../constants';
+import { GoogleGenAI, Modality, Blob as GeminiBlob, GenerateContentResponse, GenerateContentParameters, ThinkingConfig, Tool, GenerateVideoOperation, Schema, Content } from "@google/genai";
+import { SupportedModels, AspectRatio, VideoAspectRatio, VideoResolution, GroundingChunk, ImageInput, VideoFrame, DocumentAttachment } from '../types';
+import { VEO_BILLING_DOCS_LINK, DYNAMIC_THINKING_BUDGET, THINKING_BUDGET_LIMITS } from '../constants';
+import { formatTimestamp } from './videoFrameService';
+import { assertDocumentsFitRequest, documentsToParts } from './documentService';
 
 // Helper functions for audio encoding/decoding (from Gemini docs)
 export function decode(base64: string): Uint8Array {
@@ -41,14 +43,9 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-export function createPcmBlob(data: Float32Array, sampleRate: number): GeminiBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createPcmBlob(pcm: Int16Array, sampleRate: number): GeminiBlob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
     mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
@@ -163,28 +160,45 @@ export function extractGroundingChunks(response: GenerateContentResponse): Groun
   return groundingChunks;
 }
 
-// Generic `generateContent` call
-export async function generateContent(
+export type GenerateContentOptions = {
+  systemInstruction?: string;
+  thinkingBudget?: number;
+  includeThoughts?: boolean;
+  tools?: Tool[];
+  images?: ImageInput[];
+  frames?: VideoFrame[];
+  audio?: { base64Data: string; mimeType: string };
+  documents?: DocumentAttachment[];
+  geolocation?: GeolocationPosition | null;
+  responseMimeType?: string;
+  responseSchema?: Schema;
+  abortSignal?: AbortSignal;
+};
+
+function buildGenerateContentRequest(
   model: SupportedModels,
   prompt: string,
-  config?: {
-    systemInstruction?: string;
-    thinkingBudget?: number;
-    tools?: Tool[];
-    images?: ImageInput[];
-    audio?: { base64Data: string; mimeType: string };
-    geolocation?: GeolocationPosition | null;
-  }
-): Promise<GenerateContentResponse> {
-  const ai = getGeminiClient();
+  config?: GenerateContentOptions
+): GenerateContentParameters {
   const parts: GenerateContentParameters['contents'] = [];
 
   if (config?.images && config.images.length > 0) {
     parts.push(...config.images.map(img => ({ inlineData: { data: img.base64Data, mimeType: img.mimeType } })));
   }
+  if (config?.frames && config.frames.length > 0) {
+    // Label each frame with its timestamp so the model can reason about ordering and timing.
+    for (const frame of config.frames) {
+      parts.push({ text: `Frame at ${formatTimestamp(frame.timestamp)}:` });
+      parts.push({ inlineData: { data: frame.base64Data, mimeType: frame.mimeType } });
+    }
+  }
   if (config?.audio) {
     parts.push({ inlineData: { data: config.audio.base64Data, mimeType: config.audio.mimeType } });
   }
+  if (config?.documents && config.documents.length > 0) {
+    assertDocumentsFitRequest(config.documents);
+    parts.push(...documentsToParts(config.documents));
+  }
 
   if (prompt) {
     parts.push({ text: prompt });
@@ -192,8 +206,13 @@ export async function generateContent(
 
   const generateConfig: GenerateContentParameters['config'] = {
     systemInstruction: config?.systemInstruction,
-    thinkingConfig: config?.thinkingBudget !== undefined ? { thinkingBudget: config.thinkingBudget } : undefined,
+    thinkingConfig: config?.thinkingBudget !== undefined || config?.includeThoughts
+      ? { thinkingBudget: config.thinkingBudget, includeThoughts: config.includeThoughts }
+      : undefined,
     tools: config?.tools,
+    responseMimeType: config?.responseMimeType,
+    responseSchema: config?.responseSchema,
+    abortSignal: config?.abortSignal,
   };
 
   if (config?.tools?.some(tool => (tool as any).googleMaps)) {
@@ -211,9 +230,78 @@ export async function generateContent(
     }
   }
 
-  return await ai.models.generateContent({
+  return {
     model: model,
     contents: { parts: parts },
     config: generateConfig,
-  });
-}
\ No newline at end of file
+  };
+}
+
+// Generic `generateContent` call
+export async function generateContent(
+  model: SupportedModels,
+  prompt: string,
+  config?: GenerateContentOptions
+): Promise<GenerateContentResponse> {
+  const ai = getGeminiClient();
+  return await ai.models.generateContent(buildGenerateContentRequest(model, prompt, config));
+}
+
+// Streaming variant of `generateContent`. `onChunk` receives each chunk along with the
+// text accumulated so far; the promise resolves with the full text once the stream ends.
+// Aborting `config.abortSignal` stops the stream and rejects with the abort error.
+export async function generateContentStream(
+  model: SupportedModels,
+  prompt: string,
+  config: GenerateContentOptions | undefined,
+  onChunk: (chunk: GenerateContentResponse, text: string) => void
+): Promise<string> {
+  const ai = getGeminiClient();
+  const stream = await ai.models.generateContentStream(buildGenerateContentRequest(model, prompt, config));
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.text ?? '';
+    onChunk(chunk, text);
+  }
+  return text;
+}
+
+// Tokens the request would send, including attached media and any earlier chat turns.
+// The system instruction is counted as an extra text part, since `countTokens` on the
+// Gemini API does not accept one.
+export async function countTokens(
+  model: SupportedModels,
+  prompt: string,
+  config?: GenerateContentOptions,
+  history: Content[] = []
+): Promise<number> {
+  const ai = getGeminiClient();
+  const request = buildGenerateContentRequest(model, prompt, config);
+  const contents = [...history, request.contents as Content];
+  if (config?.systemInstruction) {
+    contents.unshift({ role: 'user', parts: [{ text: config.systemInstruction }] });
+  }
+  const response = await ai.models.countTokens({ model, contents });
+  return response.totalTokens ?? 0;
+}
+
+// Thought-summary text in a response or stream chunk. `response.text` leaves these parts out.
+export function extractThoughtText(response: GenerateContentResponse): string {
+  return response.candidates?.[0]?.content?.parts
+    ?.filter(part => part.thought && part.text)
+    .map(part => part.text)
+    .join('') ?? '';
+}
+
+// Moves a thinking budget into the range the model accepts, keeping dynamic (-1) as is.
+export function clampThinkingBudget(model: SupportedModels, budget: number): number {
+  const limits = THINKING_BUDGET_LIMITS[model];
+  if (!limits || budget === DYNAMIC_THINKING_BUDGET) return budget;
+  if (budget === 0 && limits.canDisable) return 0;
+  return Math.min(limits.max, Math.max(limits.min, budget));
+}
+
+// True when `error` was caused by aborting a request, as opposed to an API failure.
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { applyMaskAlpha } from './maskService';
+
+// Builds RGBA pixel data from [r, g, b, a] tuples.
+function pixels(...values: number[][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(values.flat());
+}
+
+describe('applyMaskAlpha', () => {
+  it('keeps pixels under white mask pixels and drops the rest', () => {
+    const patch = pixels([10, 20, 30, 255], [40, 50, 60, 255]);
+    applyMaskAlpha(patch, pixels([255, 255, 255, 255], [0, 0, 0, 255]));
+    expect(Array.from(patch)).toEqual([10, 20, 30, 255, 40, 50, 60, 0]);
+  });
+
+  it('blends antialiased mask edges', () => {
+    const patch = pixels([10, 20, 30, 255]);
+    applyMaskAlpha(patch, pixels([128, 128, 128, 255]));
+    expect(patch[3]).toBe(128);
+  });
+
+  it('leaves the colour channels untouched', () => {
+    const patch = pixels([1, 2, 3, 4], [5, 6, 7, 8]);
+    applyMaskAlpha(patch, pixels([0, 0, 0, 255], [255, 255, 255, 255]));
+    expect([patch[0], patch[1], patch[2], patch[4], patch[5], patch[6]]).toEqual([1, 2, 3, 5, 6, 7]);
+  });
+});
@@ -0,0 +1,71 @@
+import { ImageInput } from '../types';
+
+function loadImage(image: ImageInput): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = `data:${image.mimeType};base64,${image.base64Data}`;
+  });
+}
+
+function canvasToImageInput(canvas: HTMLCanvasElement): ImageInput {
+  return { base64Data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+}
+
+// Converts the painted overlay (opaque where the user painted, transparent elsewhere)
+// into a black-and-white PNG mask: white marks the region to edit.
+export function overlayToMask(overlay: HTMLCanvasElement): ImageInput {
+  const canvas = document.createElement('canvas');
+  canvas.width = overlay.width;
+  canvas.height = overlay.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get 2D context for canvas.');
+  ctx.drawImage(overlay, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvasToImageInput(canvas);
+}
+
+// Makes RGBA `pixels` transparent outside the mask: each pixel's alpha becomes the mask's
+// value there (white keeps it, black drops it, grey from antialiasing blends).
+export function applyMaskAlpha(pixels: Uint8ClampedArray, mask: Uint8ClampedArray): void {
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i + 3] = mask[i]; // Mask luminance becomes the patch alpha
+  }
+}
+
+// Pastes the masked region of `edited` onto `original`. Pixels outside the mask are
+// copied from the original untouched, and the result is a lossless PNG at the original size.
+export async function compositeMaskedEdit(original: ImageInput, edited: ImageInput, mask: ImageInput): Promise<ImageInput> {
+  const [originalImg, editedImg, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  // The model may return a different resolution, so both layers are scaled to the original.
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d');
+  if (!patchCtx) throw new Error('Could not get 2D context for canvas.');
+  patchCtx.drawImage(maskImg, 0, 0, width, height);
+  const maskData = patchCtx.getImageData(0, 0, width, height);
+  patchCtx.clearRect(0, 0, width, height);
+  patchCtx.drawImage(editedImg, 0, 0, width, height);
+  const patchData = patchCtx.getImageData(0, 0, width, height);
+  applyMaskAlpha(patchData.data, maskData.data);
+  patchCtx.putImageData(patchData, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get 2D context for canvas.');
+  ctx.drawImage(originalImg, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return canvasToImageInput(canvas);
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+const DB_NAME = 'gemini-multi-tool-app';
+
+// Creates the database as an earlier app version left it, with one record per store.
+function createDatabase(version: number, stores: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => {
+      for (const store of stores) {
+        request.result.createObjectStore(store, { keyPath: 'id' }).put({ id: `${store}-1` });
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function databaseVersion(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => {
+      resolve(request.result.version);
+      request.result.close();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The service caches its connection, so each test loads a fresh copy against a fresh database.
+async function loadStorageService() {
+  vi.resetModules();
+  return import('./storageService');
+}
+
+describe('storageService migrations', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  it('creates every store in a new database', async () => {
+    const storage = await loadStorageService();
+    for (const store of [storage.STORE_CONVERSATIONS, storage.STORE_ASSETS, storage.STORE_TEMPLATES]) {
+      expect(await storage.getAllRecords(store)).toEqual([]);
+    }
+    expect(await databaseVersion()).toBe(3);
+  });
+
+  it('upgrades a version 1 database and keeps its conversations', async () => {
+    await createDatabase(1, ['conversations']);
+    const storage = await loadStorageService();
+    expect(await storage.getAllRecords(storage.STORE_CONVERSATIONS)).toEqual([{ id: 'conversations-1' }]);
+    expect(await storage.getAllRecords(storage.STORE_ASSETS)).toEqual([]);
+    expect(await storage.getAllRecords(storage.STORE_TEMPLATES)).toEqual([]);
+    expect(await databaseVersion()).toBe(3);
+  });
+
+  it('upgrades a version 2 database and keeps its conversations and assets', async () => {
+    await createDatabase(2, ['conversations', 'assets']);
+    const storage = await loadStorageService();
+    expect(await storage.getAllRecords(storage.STORE_CONVERSATIONS)).toEqual([{ id: 'conversations-1' }]);
+    expect(await storage.getAllRecords(storage.STORE_ASSETS)).toEqual([{ id: 'assets-1' }]);
+    expect(await storage.getAllRecords(storage.STORE_TEMPLATES)).toEqual([]);
+  });
+
+  it('stores, reads and deletes records after upgrading', async () => {
+    await createDatabase(1, ['conversations']);
+    const storage = await loadStorageService();
+    await storage.putRecord(storage.STORE_TEMPLATES, { id: 't1', name: 'Greeting' });
+    expect(await storage.getRecord(storage.STORE_TEMPLATES, 't1')).toEqual({ id: 't1', name: 'Greeting' });
+    await storage.deleteRecord(storage.STORE_TEMPLATES, 't1');
+    expect(await storage.getRecord(storage.STORE_TEMPLATES, 't1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+// Minimal promise-based IndexedDB wrapper for locally persisted app data.
+
+const DB_NAME = 'gemini-multi-tool-app';
+const DB_VERSION = 3;
+
+export const STORE_CONVERSATIONS = 'conversations';
+export const STORE_ASSETS = 'assets';
+export const STORE_TEMPLATES = 'templates';
+
+// Every object store is keyed by its records' `id` field.
+const STORES = [STORE_CONVERSATIONS, STORE_ASSETS, STORE_TEMPLATES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open local database.'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? new Error(`Local database error in "${storeName}".`));
+    transaction.onabort = () => reject(transaction.error ?? new Error(`Local database transaction aborted in "${storeName}".`));
+  }));
+}
+
+export function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+export function getRecord<T>(storeName: string, id: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+}
+
+export async function putRecord<T extends { id: string }>(storeName: string, record: T): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.put(record));
+}
+
+export async function deleteRecord(storeName: string, id: string): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.delete(id));
+}
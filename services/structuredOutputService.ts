@@ -0,0 +1,132 @@
+import { Schema, Type } from '@google/genai';
+import { SchemaField, SchemaFieldType } from '../types';
+
+const FIELD_TYPES: Record<SchemaFieldType, Schema> = {
+  'string': { type: Type.STRING },
+  'number': { type: Type.NUMBER },
+  'integer': { type: Type.INTEGER },
+  'boolean': { type: Type.BOOLEAN },
+  'string[]': { type: Type.ARRAY, items: { type: Type.STRING } },
+  'number[]': { type: Type.ARRAY, items: { type: Type.NUMBER } },
+};
+
+const JSON_SCHEMA_TYPES: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+export function createSchemaField(name = ''): SchemaField {
+  return { id: crypto.randomUUID(), name, type: 'string', description: '', required: true };
+}
+
+// Builds a response schema from the form editor. With `asList` the model returns
+// an array of such objects, e.g. one per row extracted from a document.
+export function fieldsToSchema(fields: SchemaField[], asList: boolean): Schema {
+  const named = fields.filter(field => field.name.trim());
+  if (named.length === 0) {
+    throw new Error('Add at least one field to the schema.');
+  }
+  const object: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(named.map(field => [
+      field.name.trim(),
+      { ...FIELD_TYPES[field.type], description: field.description.trim() || undefined },
+    ])),
+    required: named.filter(field => field.required).map(field => field.name.trim()),
+    propertyOrdering: named.map(field => field.name.trim()),
+  };
+  return asList ? { type: Type.ARRAY, items: object } : object;
+}
+
+// Converts a pasted JSON Schema into the SDK's Schema shape. Only the subset the API
+// understands is kept: type, properties, items, required, enum, description and nullable.
+export function jsonSchemaToSchema(jsonSchemaText: string): Schema {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonSchemaText);
+  } catch (error) {
+    throw new Error(`The schema is not valid JSON: ${(error as Error).message}`);
+  }
+  return convertJsonSchema(parsed, '$');
+}
+
+function convertJsonSchema(node: unknown, path: string): Schema {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) {
+    throw new Error(`Expected a schema object at ${path}.`);
+  }
+  const source = node as Record<string, any>;
+  let typeName = source.type;
+  let nullable: boolean | undefined;
+  if (Array.isArray(typeName)) {
+    // ["string", "null"] style unions become a nullable schema
+    nullable = typeName.includes('null') || undefined;
+    typeName = typeName.find((t: string) => t !== 'null');
+  }
+  const type = JSON_SCHEMA_TYPES[typeName];
+  if (!type) {
+    throw new Error(`Unsupported or missing "type" at ${path}.`);
+  }
+
+  const schema: Schema = { type, nullable: source.nullable ?? nullable, description: source.description };
+  if (Array.isArray(source.enum)) {
+    schema.enum = source.enum.map(String);
+  }
+  if (type === Type.OBJECT) {
+    const properties = source.properties ?? {};
+    schema.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [key, convertJsonSchema(value, `${path}.${key}`)])
+    );
+    schema.propertyOrdering = Object.keys(properties);
+    if (Array.isArray(source.required)) {
+      schema.required = source.required;
+    }
+  }
+  if (type === Type.ARRAY) {
+    if (!source.items) {
+      throw new Error(`Array schema at ${path} needs "items".`);
+    }
+    schema.items = convertJsonSchema(source.items, `${path}[]`);
+  }
+  return schema;
+}
+
+// Checks a parsed response against the schema and returns one message per problem.
+export function validateAgainstSchema(value: unknown, schema: Schema, path = '$'): string[] {
+  if (value === null) {
+    return schema.nullable ? [] : [`${path} is null`];
+  }
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+      return typeof value === 'number' ? [] : [`${path} should be a number`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return schema.items ? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`)) : [];
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
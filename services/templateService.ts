@@ -0,0 +1,106 @@
+import { PromptTemplate, Tab } from '../types';
+import { STORE_TEMPLATES, getAllRecords, putRecord, deleteRecord } from './storageService';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Alphabetical by name.
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  const templates = await getAllRecords<PromptTemplate>(STORE_TEMPLATES);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(
+  params: Omit<PromptTemplate, 'id' | 'createdAt' | 'updatedAt'> & { id?: string; createdAt?: number }
+): Promise<PromptTemplate> {
+  const now = Date.now();
+  const template: PromptTemplate = { ...params, id: params.id ?? crypto.randomUUID(), createdAt: params.createdAt ?? now, updatedAt: now };
+  await putRecord(STORE_TEMPLATES, template);
+  return template;
+}
+
+export function deleteTemplate(id: string): Promise<void> {
+  return deleteRecord(STORE_TEMPLATES, id);
+}
+
+// Variable names in order of first appearance across the given texts.
+export function extractVariables(...texts: (string | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text ?? '').matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+// Replaces each `{{name}}` with its value. Variables without a value are left as written.
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] || placeholder);
+}
+
+export function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+export function matchesTemplateSearch(template: PromptTemplate, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [template.name, template.prompt, ...template.tags].some(value => value.toLowerCase().includes(needle));
+}
+
+export function templatesToJson(templates: PromptTemplate[]): string {
+  return JSON.stringify({ version: 1, templates }, null, 2);
+}
+
+// Reads templates exported by `templatesToJson` (or a bare array of templates).
+// Throws with a readable message when the file does not contain valid templates.
+export function parseTemplatesJson(text: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+  const items = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(items)) {
+    throw new Error('The file does not contain a list of templates.');
+  }
+  const tools = Object.values(Tab) as string[];
+  const now = Date.now();
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string' || typeof item.prompt !== 'string' || !tools.includes(item.tool)) {
+      throw new Error(`Template ${index + 1} needs a name, a prompt and a known tool.`);
+    }
+    return {
+      id: typeof item.id === 'string' ? item.id : crypto.randomUUID(),
+      name: item.name,
+      tool: item.tool,
+      prompt: item.prompt,
+      systemInstruction: typeof item.systemInstruction === 'string' ? item.systemInstruction : undefined,
+      model: typeof item.model === 'string' ? item.model : undefined,
+      settings: item.settings && typeof item.settings === 'object' ? item.settings : {},
+      tags: Array.isArray(item.tags) ? item.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+      createdAt: typeof item.createdAt === 'number' ? item.createdAt : now,
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : now,
+    };
+  });
+}
+
+type TemplateSettingValue = PromptTemplate['settings'][string];
+
+// The tool settings a template stores, read from the tool's state.
+export function settingsFromState<S extends object>(state: S, keys: (keyof S & string)[]): PromptTemplate['settings'] {
+  return Object.fromEntries(keys.map(key => [key, state[key] as TemplateSettingValue]));
+}
+
+// Template settings to apply to a tool's state. Settings whose type does not match the
+// current value (e.g. from a hand-edited import) are skipped.
+export function settingsToState<S extends object>(settings: PromptTemplate['settings'], state: S, keys: (keyof S & string)[]): Partial<S> {
+  const changes: Partial<S> = {};
+  for (const key of keys) {
+    if (key in settings && typeof settings[key] === typeof state[key]) {
+      changes[key] = settings[key] as S[typeof key];
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,72 @@
+import { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { ModelPrice, PriceTable, SupportedModels, TokenUsage, UsageRecord } from '../types';
+import { DEFAULT_PRICE_TABLE, PRICE_TABLE_STORAGE_KEY } from '../constants';
+
+// Stored prices are merged over the defaults so models added later still get a price.
+export function loadPriceTable(): PriceTable {
+  try {
+    const stored = localStorage.getItem(PRICE_TABLE_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PRICE_TABLE, ...JSON.parse(stored) } : DEFAULT_PRICE_TABLE;
+  } catch (error) {
+    console.error('Failed to load price table:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+export function savePriceTable(prices: PriceTable): void {
+  try {
+    localStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(prices));
+  } catch (error) {
+    console.error('Failed to save price table:', error);
+  }
+}
+
+export function resetPriceTable(): PriceTable {
+  localStorage.removeItem(PRICE_TABLE_STORAGE_KEY);
+  return DEFAULT_PRICE_TABLE;
+}
+
+export function usageFromMetadata(metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    thoughtsTokens: metadata.thoughtsTokenCount ?? 0,
+  };
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    thoughtsTokens: a.thoughtsTokens + b.thoughtsTokens,
+  };
+}
+
+export function estimateInputCost(model: SupportedModels, inputTokens: number, prices: PriceTable): number | undefined {
+  const price = prices[model];
+  return price?.inputPerMillion !== undefined ? (inputTokens / 1e6) * price.inputPerMillion : undefined;
+}
+
+// Estimated cost of a ledger record, or undefined when the model has no price for what it used.
+export function estimateCost(record: Pick<UsageRecord, 'model' | 'usage' | 'images' | 'videoSeconds'>, prices: PriceTable): number | undefined {
+  const price: ModelPrice | undefined = prices[record.model];
+  if (!price) return undefined;
+  if (record.images !== undefined) {
+    return price.perImage !== undefined ? record.images * price.perImage : undefined;
+  }
+  if (record.videoSeconds !== undefined) {
+    return price.perVideoSecond !== undefined ? record.videoSeconds * price.perVideoSecond : undefined;
+  }
+  if (record.usage && price.inputPerMillion !== undefined && price.outputPerMillion !== undefined) {
+    return (record.usage.inputTokens / 1e6) * price.inputPerMillion
+      + ((record.usage.outputTokens + record.usage.thoughtsTokens) / 1e6) * price.outputPerMillion;
+  }
+  return undefined;
+}
+
+// Small amounts keep enough digits to be meaningful.
+export function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(5)}` : `$${cost.toFixed(2)}`;
+}
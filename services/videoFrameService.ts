@@ -0,0 +1,115 @@
+import { ImageInput, VideoChapter, VideoFrame } from '../types';
+import { JPEG_QUALITY, VIDEO_FRAME_MAX_DIMENSION } from '../constants';
+
+// Formats seconds as mm:ss.s (or h:mm:ss.s for long videos) for frame labels.
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  const mm = String(minutes).padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${secs}` : `${mm}:${secs}`;
+}
+
+// Timestamps (in seconds) to sample from a clip of the given duration.
+// The interval is widened when needed so the whole clip is covered by at most `maxFrames` frames.
+export function getFrameTimestamps(duration: number, frameRate: number, maxFrames: number): number[] {
+  if (!isFinite(duration) || duration <= 0 || frameRate <= 0 || maxFrames <= 0) {
+    return [0];
+  }
+  const interval = Math.max(1 / frameRate, duration / maxFrames);
+  const timestamps: number[] = [];
+  for (let t = 0; t < duration && timestamps.length < maxFrames; t += interval) {
+    timestamps.push(Number(t.toFixed(3)));
+  }
+  return timestamps;
+}
+
+function loadVideo(videoFile: File): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(videoFile);
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Error loading video.'));
+    };
+  });
+}
+
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error(`Error seeking video to ${formatTimestamp(time)}.`));
+    video.currentTime = time;
+  });
+}
+
+// Samples frames across the whole video in chronological order, downscaled and JPEG-encoded for Gemini.
+export async function extractVideoFrames(
+  videoFile: File,
+  frameRate: number,
+  maxFrames: number,
+): Promise<VideoFrame[]> {
+  const video = await loadVideo(videoFile);
+  try {
+    const scale = Math.min(1, VIDEO_FRAME_MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context for canvas.');
+    }
+
+    const frames: VideoFrame[] = [];
+    for (const timestamp of getFrameTimestamps(video.duration, frameRate, maxFrames)) {
+      await seekTo(video, timestamp);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+      frames.push({ base64Data: dataUrl.split(',')[1], mimeType: 'image/jpeg', timestamp });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+}
+
+// Grabs downscaled JPEG frames from a playing video element (e.g. a camera preview) at `frameRate`
+// until the returned function is called.
+export function startFrameCapture(
+  video: HTMLVideoElement,
+  frameRate: number,
+  onFrame: (frame: ImageInput) => void,
+  quality = JPEG_QUALITY,
+): () => void {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const interval = setInterval(() => {
+    if (!ctx || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+    const scale = Math.min(1, VIDEO_FRAME_MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onFrame({ base64Data: canvas.toDataURL('image/jpeg', quality).split(',')[1], mimeType: 'image/jpeg' });
+  }, 1000 / frameRate);
+  return () => clearInterval(interval);
+}
+
+// Parses and sanity-checks the structured "Chapters" response, ordering segments by start time.
+export function parseVideoChapters(jsonText: string): VideoChapter[] {
+  const parsed = JSON.parse(jsonText);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a list of chapters in the model response.');
+  }
+  return parsed
+    .filter((item) => item && typeof item.startTime === 'number' && typeof item.endTime === 'number')
+    .map((item) => ({
+      startTime: Math.max(0, item.startTime),
+      endTime: Math.max(item.startTime, item.endTime),
+      title: String(item.title ?? ''),
+      summary: String(item.summary ?? ''),
+    }))
+    .sort((a, b) => a.startTime - b.startTime);
+}
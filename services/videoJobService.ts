@@ -0,0 +1,108 @@
+import { GenerateVideosOperation, VideoGenerationReferenceType } from '@google/genai';
+import { ImageInput, SupportedModels, VideoAspectRatio, VideoJob, VideoResolution } from '../types';
+import { VIDEO_JOBS_STORAGE_KEY } from '../constants';
+import { getGeminiClient } from './geminiService';
+
+export function loadVideoJobs(): VideoJob[] {
+  try {
+    const stored = localStorage.getItem(VIDEO_JOBS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load video jobs:', error);
+    return [];
+  }
+}
+
+export function saveVideoJobs(jobs: VideoJob[]): void {
+  try {
+    localStorage.setItem(VIDEO_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Failed to save video jobs:', error);
+  }
+}
+
+// Submits a Veo generation and returns a job tracking its operation.
+export async function startVideoJob(params: {
+  model: SupportedModels;
+  prompt: string;
+  image?: ImageInput | null;
+  lastFrame?: ImageInput | null;
+  referenceImages?: ImageInput[];
+  sourceJob?: VideoJob | null; // Finished job whose video is extended
+  durationSeconds?: number;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+}): Promise<VideoJob> {
+  if (params.sourceJob && !params.sourceJob.videoUri) {
+    throw new Error('Only finished videos can be extended.');
+  }
+  const ai = getGeminiClient(); // Re-instantiate for updated API key
+  const operation = await ai.models.generateVideos({
+    model: params.model,
+    prompt: params.prompt,
+    image: params.image ? { imageBytes: params.image.base64Data, mimeType: params.image.mimeType } : undefined,
+    video: params.sourceJob ? { uri: params.sourceJob.videoUri } : undefined,
+    config: {
+      numberOfVideos: 1,
+      durationSeconds: params.durationSeconds,
+      lastFrame: params.lastFrame ? { imageBytes: params.lastFrame.base64Data, mimeType: params.lastFrame.mimeType } : undefined,
+      resolution: params.resolution,
+      aspectRatio: params.aspectRatio,
+      referenceImages: params.referenceImages?.length
+        ? params.referenceImages.map(image => ({
+          image: { imageBytes: image.base64Data, mimeType: image.mimeType },
+          referenceType: VideoGenerationReferenceType.ASSET,
+        }))
+        : undefined,
+    },
+  });
+  if (!operation.name) {
+    throw new Error('Video generation did not return an operation name.');
+  }
+  return {
+    id: crypto.randomUUID(),
+    operationName: operation.name,
+    prompt: params.prompt,
+    model: params.model,
+    aspectRatio: params.aspectRatio,
+    resolution: params.resolution,
+    durationSeconds: params.durationSeconds,
+    status: 'running',
+    createdAt: Date.now(),
+    sourceJobId: params.sourceJob?.id,
+  };
+}
+
+// Checks a job's operation once and returns the fields that changed.
+// Operations are rebuilt from their stored name so polling can resume after a reload.
+export async function pollVideoJob(job: VideoJob): Promise<Partial<VideoJob>> {
+  const ai = getGeminiClient();
+  const operation = new GenerateVideosOperation();
+  operation.name = job.operationName;
+  const current = await ai.operations.getVideosOperation({ operation });
+
+  if (current.error) {
+    const message = typeof current.error.message === 'string' ? current.error.message : 'Video generation failed.';
+    return { status: 'failed', error: message, finishedAt: Date.now() };
+  }
+  if (!current.done) {
+    return { error: undefined }; // Still running; clear any earlier transient polling error
+  }
+  const videoUri = current.response?.generatedVideos?.[0]?.video?.uri;
+  if (!videoUri) {
+    return { status: 'failed', error: 'No video URI returned.', finishedAt: Date.now() };
+  }
+  return { status: 'succeeded', videoUri, finishedAt: Date.now() };
+}
+
+// Downloads a finished job's video. The download link needs the API key appended.
+export async function fetchVideoJobResult(job: VideoJob): Promise<Blob> {
+  if (!job.videoUri) {
+    throw new Error('This job has no video to download.');
+  }
+  const videoResponse = await fetch(`${job.videoUri}&key=${process.env.API_KEY}`);
+  if (!videoResponse.ok) {
+    throw new Error(`Failed to fetch video: ${videoResponse.statusText}`);
+  }
+  return videoResponse.blob();
+}
@@ -0,0 +1,21 @@
+import { Asset, Tab } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface AssetLibraryState extends ToolStatus {
+  assets: Asset[];
+  search: string;
+  toolFilter: Tab | 'all';
+  selectedIds: string[];
+}
+
+export const initialAssetLibraryState: AssetLibraryState = {
+  loading: false,
+  error: null,
+  assets: [],
+  search: '',
+  toolFilter: 'all',
+  selectedIds: [],
+};
+
+// Assets live in IndexedDB; clearing only resets the search, filter and selection.
+export const assetLibraryReducer = createToolReducer(initialAssetLibraryState, ['assets']);
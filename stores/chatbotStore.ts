@@ -0,0 +1,26 @@
+import { ChatMessage, Conversation, DocumentAttachment, PlaygroundFunction } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface ChatbotState extends ToolStatus {
+  messages: ChatMessage[];
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  documents: DocumentAttachment[]; // Attached to the active conversation
+  functionMode: boolean;
+  functions: PlaygroundFunction[];
+}
+
+export const initialChatbotState: ChatbotState = {
+  loading: false,
+  error: null,
+  messages: [],
+  conversations: [],
+  activeConversationId: null,
+  documents: [],
+  functionMode: false,
+  functions: [],
+};
+
+// Saved conversations live in IndexedDB and registered functions in localStorage;
+// clearing only leaves the current conversation.
+export const chatbotReducer = createToolReducer(initialChatbotState, ['conversations', 'functionMode', 'functions']);
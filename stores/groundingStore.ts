@@ -0,0 +1,27 @@
+import { GroundingChunk, TokenUsage } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface GroundingState extends ToolStatus {
+  prompt: string;
+  response: string;
+  links: GroundingChunk[];
+  usage: TokenUsage | null;
+  geolocation: GeolocationPosition | null;
+  tools: { googleSearch: boolean; googleMaps: boolean };
+}
+
+export const initialGroundingState: GroundingState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  response: '',
+  links: [],
+  usage: null,
+  geolocation: null,
+  tools: {
+    googleSearch: true,
+    googleMaps: false,
+  },
+};
+
+export const groundingReducer = createToolReducer(initialGroundingState, ['tools', 'geolocation']);
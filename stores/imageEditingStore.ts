@@ -0,0 +1,34 @@
+import { EditStep, ImageInput, MaskTool, TokenUsage, UploadedImage } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface ImageEditingState extends ToolStatus {
+  prompt: string;
+  images: UploadedImage[]; // Image 1 is edited; the rest are sent alongside it as extra inputs
+  steps: EditStep[];
+  currentStepId: string | null;
+  redoStepIds: string[]; // Steps undone from the current branch, most recent last
+  compare: boolean;
+  maskEnabled: boolean;
+  maskTool: MaskTool;
+  brushSize: number;
+  mask: ImageInput | null; // Black-and-white PNG for the current step; white marks the region to edit
+  usage: TokenUsage | null; // Reported for the last edit
+}
+
+export const initialImageEditingState: ImageEditingState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  images: [],
+  steps: [],
+  currentStepId: null,
+  redoStepIds: [],
+  compare: false,
+  maskEnabled: false,
+  maskTool: 'brush',
+  brushSize: 40,
+  mask: null,
+  usage: null,
+};
+
+export const imageEditingReducer = createToolReducer(initialImageEditingState, ['compare', 'maskTool', 'brushSize']);
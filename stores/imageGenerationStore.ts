@@ -0,0 +1,27 @@
+import { PersonGeneration } from '@google/genai';
+import { AspectRatio } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface ImageGenerationState extends ToolStatus {
+  prompt: string;
+  negativePrompt: string; // Sent as an "Avoid: ..." line, since the Gemini API has no negativePrompt field
+  numberOfImages: number;
+  personGeneration: PersonGeneration;
+  aspectRatio: AspectRatio;
+  generatedImages: string[]; // Base64 JPEG bytes, one per variant
+  favoriteIndex: number | null;
+}
+
+export const initialImageGenerationState: ImageGenerationState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  negativePrompt: '',
+  numberOfImages: 1,
+  personGeneration: PersonGeneration.ALLOW_ADULT,
+  aspectRatio: '1:1',
+  generatedImages: [],
+  favoriteIndex: null,
+};
+
+export const imageGenerationReducer = createToolReducer(initialImageGenerationState, ['aspectRatio', 'numberOfImages', 'personGeneration']);
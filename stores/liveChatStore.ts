@@ -0,0 +1,40 @@
+import { LIVE_DEFAULT_SYSTEM_INSTRUCTION, VOICE_NAMES } from '../constants';
+import { LiveConnectionState, LiveSessionSettings, LiveTurn, LiveVideoSource } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface LiveChatState extends ToolStatus {
+  turns: LiveTurn[];
+  pendingInput: LiveTurn | null; // User speech still being transcribed
+  pendingOutput: LiveTurn | null; // Model reply still being transcribed
+  sessionStartedAt: number | null;
+  isActive: boolean; // A session is running, including while it reconnects
+  connectionState: LiveConnectionState;
+  isTalking: boolean; // Push-to-talk button held
+  settings: LiveSessionSettings;
+  videoSource: LiveVideoSource;
+}
+
+export const initialLiveChatState: LiveChatState = {
+  loading: false,
+  error: null,
+  turns: [],
+  pendingInput: null,
+  pendingOutput: null,
+  sessionStartedAt: null,
+  isActive: false,
+  connectionState: 'idle',
+  isTalking: false,
+  settings: {
+    systemInstruction: LIVE_DEFAULT_SYSTEM_INSTRUCTION,
+    voice: VOICE_NAMES[0].value,
+    responseLanguage: '',
+    googleSearch: false,
+    functionMode: false,
+    functions: [],
+    pushToTalk: false,
+  },
+  videoSource: 'none',
+};
+
+// Session state is preserved so clearing the transcript does not desync it from a running session.
+export const liveChatReducer = createToolReducer(initialLiveChatState, ['settings', 'videoSource', 'isActive', 'connectionState', 'isTalking', 'sessionStartedAt']);
@@ -0,0 +1,76 @@
+import { DocumentAttachment, ModelComparisonResult, SchemaEditorMode, SchemaField, SupportedModels, TextOutputMode, TokenUsage } from '../types';
+import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, DEFAULT_SYSTEM_INSTRUCTION_TEXT, DYNAMIC_THINKING_BUDGET } from '../constants';
+import { createSchemaField } from '../services/structuredOutputService';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface TextGenerationState extends ToolStatus {
+  prompt: string;
+  documents: DocumentAttachment[];
+  response: string;
+  thoughts: string; // Thought summaries streamed alongside the response
+  usage: TokenUsage | null; // Reported for the last response
+  model: SupportedModels;
+  thinkingBudget: number; // DYNAMIC_THINKING_BUDGET, 0 (off) or a token count
+  includeThoughts: boolean;
+  systemInstruction: string;
+  outputMode: TextOutputMode;
+  schemaEditorMode: SchemaEditorMode;
+  schemaFields: SchemaField[];
+  schemaAsList: boolean;
+  jsonSchemaText: string;
+  structuredResult: unknown; // Parsed JSON response; undefined until one arrives
+  validationErrors: string[];
+  compareMode: boolean;
+  compareModels: SupportedModels[];
+  comparisonResults: ModelComparisonResult[];
+  winnerModel: SupportedModels | null;
+}
+
+const EXAMPLE_JSON_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    invoiceNumber: { type: 'string' },
+    total: { type: 'number' },
+    lineItems: { type: 'array', items: { type: 'object', properties: { description: { type: 'string' }, amount: { type: 'number' } } } },
+  },
+  required: ['invoiceNumber', 'total'],
+}, null, 2);
+
+export const initialTextGenerationState: TextGenerationState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  documents: [],
+  response: '',
+  thoughts: '',
+  usage: null,
+  model: GEMINI_FLASH_MODEL,
+  thinkingBudget: DYNAMIC_THINKING_BUDGET,
+  includeThoughts: true,
+  systemInstruction: DEFAULT_SYSTEM_INSTRUCTION_TEXT,
+  outputMode: 'text',
+  schemaEditorMode: 'form',
+  schemaFields: [createSchemaField()],
+  schemaAsList: false,
+  jsonSchemaText: EXAMPLE_JSON_SCHEMA,
+  structuredResult: undefined,
+  validationErrors: [],
+  compareMode: false,
+  compareModels: [GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL],
+  comparisonResults: [],
+  winnerModel: null,
+};
+
+export const textGenerationReducer = createToolReducer(initialTextGenerationState, [
+  'model',
+  'thinkingBudget',
+  'includeThoughts',
+  'systemInstruction',
+  'outputMode',
+  'schemaEditorMode',
+  'schemaFields',
+  'schemaAsList',
+  'jsonSchemaText',
+  'compareMode',
+  'compareModels',
+]);
@@ -0,0 +1,25 @@
+import { VOICE_NAMES } from '../constants';
+import { SpeechMode, TokenUsage } from '../types';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface TextToSpeechState extends ToolStatus {
+  input: string;
+  mode: SpeechMode;
+  voice: string;
+  speakerVoices: Record<string, string>; // Dialogue speaker name -> voice
+  audioUrl: string | null;
+  usage: TokenUsage | null;
+}
+
+export const initialTextToSpeechState: TextToSpeechState = {
+  loading: false,
+  error: null,
+  input: '',
+  mode: 'single',
+  voice: VOICE_NAMES[0].value,
+  speakerVoices: {},
+  audioUrl: null,
+  usage: null,
+};
+
+export const textToSpeechReducer = createToolReducer(initialTextToSpeechState, ['mode', 'voice', 'speakerVoices']);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createToolReducer, ToolStatus } from './toolStore';
+
+interface TestState extends ToolStatus {
+  prompt: string;
+  model: string;
+  results: string[];
+}
+
+const initialState: TestState = { prompt: '', model: 'flash', results: [], loading: false, error: null };
+
+describe('createToolReducer', () => {
+  it('merges partial updates and updater results', () => {
+    const reducer = createToolReducer(initialState);
+    const updated = reducer(initialState, { type: 'UPDATE', payload: { prompt: 'Hello' } });
+    expect(updated).toEqual({ ...initialState, prompt: 'Hello' });
+    const appended = reducer(updated, { type: 'UPDATE', payload: (prev) => ({ results: [...prev.results, prev.prompt] }) });
+    expect(appended.results).toEqual(['Hello']);
+  });
+
+  it('sets loading and error', () => {
+    const reducer = createToolReducer(initialState);
+    expect(reducer(initialState, { type: 'SET_LOADING', payload: true }).loading).toBe(true);
+    expect(reducer(initialState, { type: 'SET_ERROR', payload: 'Failed' }).error).toBe('Failed');
+  });
+
+  it('resets everything on clear when nothing is preserved', () => {
+    const reducer = createToolReducer(initialState);
+    const state: TestState = { prompt: 'Hello', model: 'pro', results: ['Hi'], loading: true, error: 'Failed' };
+    expect(reducer(state, { type: 'CLEAR' })).toEqual(initialState);
+  });
+
+  it('keeps the preserveOnClear fields on clear', () => {
+    const reducer = createToolReducer(initialState, ['model']);
+    const state: TestState = { prompt: 'Hello', model: 'pro', results: ['Hi'], loading: false, error: 'Failed' };
+    expect(reducer(state, { type: 'CLEAR' })).toEqual({ ...initialState, model: 'pro' });
+  });
+
+  it('does not mutate the initial state', () => {
+    const reducer = createToolReducer(initialState, ['model']);
+    reducer({ ...initialState, model: 'pro' }, { type: 'CLEAR' });
+    expect(initialState.model).toBe('flash');
+  });
+});
@@ -0,0 +1,39 @@
+// Shared shape for the per-tool stores. Each tool keeps its own reducer so its
+// inputs, results and status survive tab switches until explicitly cleared.
+
+export interface ToolStatus {
+  loading: boolean;
+  error: string | null;
+}
+
+export type ToolAction<S> =
+  | { type: 'UPDATE'; payload: Partial<S> | ((state: S) => Partial<S>) }
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'CLEAR' };
+
+// Builds a reducer for a tool store. Fields listed in `preserveOnClear` (typically
+// settings such as the selected model or voice) are kept when the tool is cleared.
+export function createToolReducer<S extends ToolStatus>(initialState: S, preserveOnClear: (keyof S)[] = []) {
+  return (state: S, action: ToolAction<S>): S => {
+    switch (action.type) {
+      case 'UPDATE': {
+        const changes = typeof action.payload === 'function' ? action.payload(state) : action.payload;
+        return { ...state, ...changes };
+      }
+      case 'SET_LOADING':
+        return { ...state, loading: action.payload };
+      case 'SET_ERROR':
+        return { ...state, error: action.payload };
+      case 'CLEAR': {
+        const cleared = { ...initialState };
+        for (const key of preserveOnClear) {
+          cleared[key] = state[key];
+        }
+        return cleared;
+      }
+      default:
+        return state;
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { SupportedModels, UploadedImage, VideoAspectRatio, VideoGenerationMode, VideoJob, VideoResolution } from '../types';
+import { VEO_FAST_MODEL } from '../constants';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface VideoGenerationState extends ToolStatus {
+  prompt: string;
+  images: UploadedImage[];
+  mode: VideoGenerationMode;
+  model: SupportedModels;
+  extendJobId: string | null; // Finished job to continue in extend mode
+  extendSeconds: number;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  jobs: VideoJob[];
+  videoUrls: Record<string, string>; // Object URLs of downloaded results, keyed by job id
+}
+
+export const initialVideoGenerationState: VideoGenerationState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  images: [],
+  mode: 'start',
+  model: VEO_FAST_MODEL,
+  extendJobId: null,
+  extendSeconds: 8,
+  aspectRatio: '16:9',
+  resolution: '720p',
+  jobs: [],
+  videoUrls: {},
+};
+
+// Jobs keep running in the background, so clearing the form leaves them alone.
+export const videoGenerationReducer = createToolReducer(initialVideoGenerationState, ['aspectRatio', 'resolution', 'mode', 'model', 'extendSeconds', 'jobs', 'videoUrls']);
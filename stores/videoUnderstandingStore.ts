@@ -0,0 +1,27 @@
+import { TokenUsage, VideoChapter, VideoUnderstandingMode } from '../types';
+import { FRAME_RATE } from '../constants';
+import { ToolStatus, createToolReducer } from './toolStore';
+
+export interface VideoUnderstandingState extends ToolStatus {
+  prompt: string;
+  videoFile: File | null;
+  frameRate: number;
+  mode: VideoUnderstandingMode;
+  response: string;
+  chapters: VideoChapter[];
+  usage: TokenUsage | null;
+}
+
+export const initialVideoUnderstandingState: VideoUnderstandingState = {
+  loading: false,
+  error: null,
+  prompt: '',
+  videoFile: null,
+  frameRate: FRAME_RATE,
+  mode: 'question',
+  response: '',
+  chapters: [],
+  usage: null,
+};
+
+export const videoUnderstandingReducer = createToolReducer(initialVideoUnderstandingState, ['frameRate', 'mode']);
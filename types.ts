@@ -20,12 +20,15 @@ export enum Tab {
   LIVE_CHAT = 'Live Chat',
   TEXT_TO_SPEECH = 'Text-to-Speech',
   CHATBOT = 'Chatbot',
-  GROUNDING = 'Grounding'
+  GROUNDING = 'Grounding',
+  ASSET_LIBRARY = 'Asset Library'
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  functionCalls?: FunctionCallTrace[]; // Calls the model made before replying
+  usage?: TokenUsage; // Reported for model replies, summed over function-calling rounds
 }
 
 export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
@@ -71,3 +74,235 @@ export declare function encode(bytes: Uint8Array): string;
 export interface ToolFunctionDeclaration {
   functionDeclarations: FunctionDeclaration[];
 }
+
+export interface VideoFrame extends ImageInput {
+  timestamp: number; // Seconds from the start of the video
+}
+
+export type VideoUnderstandingMode = 'question' | 'chapters';
+
+export interface VideoChapter {
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  title: string;
+  summary: string;
+}
+
+export type Language = 'en' | 'ar';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  documents?: DocumentAttachment[]; // Kept in context for every turn
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An image handed from one tool to another (e.g. from the asset library to Image Editing).
+export interface ImageHandoff {
+  id: string;
+  target: Tab;
+  file: File;
+  image: ImageInput;
+}
+
+// Props shared by every tool tab. Tools stay mounted while hidden, so `isActive`
+// lets them pause work that only makes sense while visible.
+export interface ToolProps {
+  language: Language;
+  isActive: boolean;
+  incomingImage?: ImageHandoff | null;
+  onSendImage?: (target: Tab, file: File, image: ImageInput) => void;
+  onUsage?: (record: Omit<UsageRecord, 'id' | 'createdAt'>) => void; // Adds a request to the session usage ledger
+}
+
+export type VideoJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A Veo generation tracked by its long-running operation name, persisted across reloads.
+export interface VideoJob {
+  id: string;
+  operationName: string;
+  prompt: string;
+  model: SupportedModels;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  status: VideoJobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  videoUri?: string;
+  error?: string;
+  downloadError?: string; // Fetching the finished video failed; cleared to retry
+  savedToLibrary?: boolean;
+  sourceJobId?: string; // Set when this job extends an earlier one
+  durationSeconds?: number; // Requested length; unset uses the model default
+}
+
+export type AssetKind = 'image' | 'video' | 'audio';
+
+// A generated output saved in the local asset library.
+export interface Asset {
+  id: string;
+  kind: AssetKind;
+  tool: Tab;
+  blob: Blob;
+  mimeType: string;
+  prompt: string;
+  model: SupportedModels;
+  aspectRatio?: string;
+  createdAt: number;
+}
+
+// One node in an image editing session. The uploaded image is the root step (no
+// parent, empty prompt); editing from an earlier step starts a new branch.
+export interface EditStep {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  image: ImageInput;
+  createdAt: number;
+}
+
+export type MaskTool = 'brush' | 'box';
+
+// An image picked in a multi-image uploader; `id` keeps thumbnails stable while reordering.
+export interface UploadedImage {
+  id: string;
+  file: File;
+  image: ImageInput;
+}
+
+// start: optional starting frame; reference: asset images; firstLast: transition between
+// two frames; extend: continue a previously generated video from its last frame.
+export type VideoGenerationMode = 'start' | 'reference' | 'firstLast' | 'extend';
+
+export type TextOutputMode = 'text' | 'structured';
+
+export type LiveSpeaker = 'user' | 'model';
+export type LiveVideoSource = 'none' | 'camera' | 'screen';
+export type LiveConnectionState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+// Options a Live Chat session is opened with; changing them takes a reconnect.
+export interface LiveSessionSettings {
+  systemInstruction: string;
+  voice: string;
+  responseLanguage: string; // Empty lets the model answer in the user's language
+  googleSearch: boolean;
+  functionMode: boolean;
+  functions: PlaygroundFunction[];
+  pushToTalk: boolean; // Turns are marked by holding a button instead of voice activity detection
+}
+
+// One side of a Live Chat exchange. Times are milliseconds from the start of the session.
+export interface LiveTurn {
+  speaker: LiveSpeaker;
+  text: string;
+  startMs: number;
+  endMs: number;
+  interrupted: boolean; // The model was cut off by the user
+}
+
+// single: one voice reads the text; dialogue: a "Name: line" script read by one voice per speaker.
+export type SpeechMode = 'single' | 'dialogue';
+
+export type SchemaEditorMode = 'form' | 'json';
+export type SchemaFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'string[]' | 'number[]';
+
+// A top-level property in the form-based schema editor.
+export interface SchemaField {
+  id: string;
+  name: string;
+  type: SchemaFieldType;
+  description: string;
+  required: boolean;
+}
+
+// A function registered in the Chatbot's function-calling playground. Calls are answered
+// either by running `code` in a sandboxed worker or by returning `mockResponse`.
+export interface PlaygroundFunction {
+  id: string;
+  name: string;
+  description: string;
+  parametersJson: string; // JSON Schema for the arguments
+  implementation: 'code' | 'mock';
+  code: string; // Function body; receives `args` and may return a value or a promise
+  mockResponse: string; // JSON, or plain text
+}
+
+// One function call made during a model turn, shown inline in the conversation.
+export interface FunctionCallTrace {
+  name: string;
+  args: Record<string, unknown>;
+  response?: unknown;
+  error?: string;
+}
+
+// A document attached as context. PDFs are sent as inline data; plain text, Markdown and
+// CSV are sent as text, split into chunks when large.
+export interface DocumentAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  base64Data?: string; // PDFs
+  text?: string; // Text formats
+}
+
+// A reusable prompt for one tool. `{{variables}}` in the prompt and system instruction are
+// filled in from a generated form; `settings` holds tool-specific options such as the
+// aspect ratio, voice or thinking budget, keyed by the tool's store field names.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  tool: Tab;
+  prompt: string;
+  systemInstruction?: string;
+  model?: SupportedModels;
+  settings: Record<string, string | number | boolean>;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One model's answer in Text Generation's compare mode. Timings are measured from when
+// the request was sent; token counts come from the response's usage metadata.
+export interface ModelComparisonResult {
+  model: SupportedModels;
+  text: string;
+  status: 'running' | 'done' | 'stopped' | 'error';
+  error?: string;
+  firstChunkMs?: number;
+  latencyMs?: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  thoughtsTokens?: number;
+}
+
+// Token counts from a response's `usageMetadata`.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+}
+
+// One billable request in the session usage ledger. Imagen is billed per image and Veo
+// per second of video; everything else by tokens.
+export interface UsageRecord {
+  id: string;
+  tool: Tab;
+  model: SupportedModels;
+  usage?: TokenUsage;
+  images?: number;
+  videoSeconds?: number;
+  createdAt: number;
+}
+
+// Prices in USD. Token prices are per million tokens; thinking tokens are billed as output.
+export interface ModelPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perImage?: number;
+  perVideoSecond?: number;
+}
+
+export type PriceTable = Record<SupportedModels, ModelPrice>;